@@ -1,100 +1,189 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import VideoFeed from './components/VideoFeed';
 import PoseImage from './components/PoseImage';
 import FeedbackDisplay from './components/FeedbackDisplay';
+import ConfigIssueList from './components/ConfigIssueList';
+import WorkoutPicker from './components/WorkoutPicker';
+import SessionSummary from './components/SessionSummary';
+import SessionHistory from './components/SessionHistory';
+import InputSourcePicker from './components/InputSourcePicker';
+import PlaybackControls from './components/PlaybackControls';
+import TraceFeed from './components/TraceFeed';
+import DifficultyPicker from './components/DifficultyPicker';
+import PoseAuthoringPanel from './components/PoseAuthoringPanel';
+import WorkoutControls from './components/WorkoutControls';
+import SpeechSettingsPanel from './components/SpeechSettingsPanel';
+import EngineSettingsPanel from './components/EngineSettingsPanel';
+import TrackingModePicker from './components/TrackingModePicker';
+import PersonLockSelect from './components/PersonLockSelect';
 import useExerciseLogic from './hooks/useExerciseLogic';
 import useTTS from './hooks/useTTS';
-import { ExerciseConfig, ExercisePhase, PoseLandmarks } from './types';
-import { CONFIG_FILE_PATH } from './constants';
-import { wrapText } from './services/poseUtils';
+import useTraceRecorder from './hooks/useTraceRecorder';
+import usePoseAuthoring from './hooks/usePoseAuthoring';
+import useSpeechSettings from './hooks/useSpeechSettings';
+import useEngineSettings from './hooks/useEngineSettings';
+import { ExerciseConfig, ExercisePhase, PoseFrame, InputSource, Difficulty, EngineStatus, TrackingMode } from './types';
+import { CONFIG_FILE_PATH, DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS } from './constants';
+import { wrapText, resetPoseWarnings } from './services/poseUtils';
+import { validateExerciseConfig, ConfigValidationResult } from './services/configValidator';
+import { getWorkouts, formatWorkoutProgress } from './services/workouts';
+import { expandMirroredPoses } from './services/poseMirroring';
+import { localize, getPoseLocales } from './services/localization';
+import { getMessages } from './services/messages';
+import { parseTrace, downloadTrace } from './services/landmarkTrace';
+import { focusOnPerson } from './services/personTracker';
+import { createManualClock, systemClock } from './services/clock';
 
 const App: React.FC = () => {
   const [config, setConfig] = useState<ExerciseConfig | null>(null);
   const [configError, setConfigError] = useState<string | null>(null);
+  const [configIssues, setConfigIssues] = useState<ConfigValidationResult | null>(null);
   const [showDebug, setShowDebug] = useState(false);
   const [availableVideoDevices, setAvailableVideoDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedVideoDeviceId, setSelectedVideoDeviceId] = useState<string | undefined>(undefined);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [traceInput, setTraceInput] = useState<{ frames: PoseFrame[]; name: string } | null>(null);
+  const [isTracePaused, setIsTracePaused] = useState(false);
+  const [inputFileError, setInputFileError] = useState<string | null>(null);
+  const [playbackVideo, setPlaybackVideo] = useState<HTMLVideoElement | null>(null);
 
-  const { speak, stop: stopTTS } = useTTS();
+  const inputSource = useMemo<InputSource>(() => {
+    if (traceInput) return { kind: "trace", frames: traceInput.frames, name: traceInput.name };
+    if (videoFile) return { kind: "file", file: videoFile };
+    return { kind: "camera", deviceId: selectedVideoDeviceId };
+  }, [traceInput, videoFile, selectedVideoDeviceId]);
+  const selectedFileName = traceInput?.name ?? videoFile?.name ?? null;
 
-  const handleCameraError = useCallback(() => {
-     setAppPhase(ExercisePhase.CAMERA_ERROR);
-  }, []);
+  // A trace runs the workout on its own timestamps, so phases last as long in trace time as they did while recording
+  const traceClock = useMemo(() => (traceInput ? createManualClock(Date.now()) : null), [traceInput]);
 
-  const handlePoseInitError = useCallback(() => {
-    setAppPhase(ExercisePhase.POSE_INIT_ERROR);
-  }, []);
+  const { isRecording, frameCount: recordedFrameCount, startRecording, stopRecording, recordFrame } = useTraceRecorder();
+  const [selectedWorkoutId, setSelectedWorkoutId] = useState<string | undefined>(undefined);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAuthoring, setShowAuthoring] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showEngineSettings, setShowEngineSettings] = useState(false);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [trackingMode, setTrackingMode] = useState<TrackingMode>("single");
+  const [lockedPersonId, setLockedPersonId] = useState<number | null>(null);
+  const [visiblePersonIds, setVisiblePersonIds] = useState<number[]>([]);
+
+  const workouts = useMemo(() => (config ? getWorkouts(config) : []), [config]);
+  const selectedWorkout = workouts.find(workout => workout.id === selectedWorkoutId) || null;
 
+  const { settings: speechSettings, updateSettings: updateSpeechSettings, resetSettings: resetSpeechSettings } = useSpeechSettings();
+  const locale = speechSettings.locale;
+  const configLocales = useMemo(() => (config ? getPoseLocales(config.poses) : [locale]), [config, locale]);
+  const { speak, speakCue, cancelCue, stop: stopTTS, voices, voice } = useTTS(speechSettings);
   const {
-    phase: logicPhase, // Renamed to avoid conflict with appPhase
+    settings: engineSettings,
+    updateSettings: updateEngineSettings,
+    resetSettings: resetEngineSettings,
+    isDefault: hasDefaultEngineSettings,
+  } = useEngineSettings();
+  const [engineNotice, setEngineNotice] = useState<string | null>(null);
+  const [engineStatus, setEngineStatus] = useState<EngineStatus | null>(null);
+  const authoring = usePoseAuthoring({ config, video: playbackVideo, locale, speak });
+
+  const {
+    phase,
     currentPoseData,
     currentPoseDisplayName,
+    workoutProgress,
+    restSecondsLeft,
+    upNextDisplayName,
     angleDetails,
+    overlayRef,
+    participantsRef,
+    framingRef,
     feedbackMessages,
     holdProgress,
-    startNextPose,
+    poseScore,
+    holdSeconds,
+    repCount,
+    repTarget,
+    groupProgress,
+    framing,
+    sessionSummary,
+    isPaused,
+    canGoBack,
+    dispatch,
+    startWorkout,
+    pauseWorkout,
+    resumeWorkout,
+    skipPose,
+    previousPose,
     processFrameLandmarks,
     resetWorkout,
-    setPhaseManually: setLogicPhase, // Get the function to set logic phase
   } = useExerciseLogic({ 
     config, 
+    workout: selectedWorkout,
+    difficulty,
+    locale,
+    trackingMode,
     speak, 
+    speakCue,
+    cancelCue,
     stopTTS, 
-    onCameraError: handleCameraError, // Pass this down
-    onPoseInitError: handlePoseInitError // Pass this down
+    clock: traceClock ?? systemClock,
   });
 
-  const [appPhase, setAppPhase] = useState<ExercisePhase>(ExercisePhase.LOADING_CONFIG);
+  const handleCameraError = useCallback(() => dispatch({ type: "CAMERA_FAILED" }), [dispatch]);
 
-  // Sync appPhase with logicPhase, but allow appPhase to override for global states
-  useEffect(() => {
-    if (appPhase !== ExercisePhase.CAMERA_ERROR && 
-        appPhase !== ExercisePhase.POSE_INIT_ERROR &&
-        appPhase !== ExercisePhase.LOADING_CONFIG &&
-        appPhase !== ExercisePhase.CONFIG_ERROR &&
-        appPhase !== ExercisePhase.INITIALIZING_POSE 
-        ) {
-      setAppPhase(logicPhase);
-    }
-  }, [logicPhase, appPhase]);
-
-  // Effect to set initial phase in exerciseLogic once config is loaded
-   useEffect(() => {
-    if (config && appPhase === ExercisePhase.LOADING_CONFIG) {
-      setAppPhase(ExercisePhase.INITIALIZING_POSE); // New state before IDLE
-      setLogicPhase(ExercisePhase.INITIALIZING_POSE);
+  // Saved settings, e.g. a model that was never installed, would otherwise fail on every load; the defaults get one try first
+  const handlePoseInitError = useCallback(() => {
+    if (hasDefaultEngineSettings) {
+      dispatch({ type: "ENGINE_FAILED" });
+      return;
     }
-  }, [config, appPhase, setLogicPhase]);
+    setEngineNotice(`The ${engineSettings.model} model on ${engineSettings.delegate} could not start, so the default engine settings were restored.`);
+    resetEngineSettings();
+  }, [dispatch, hasDefaultEngineSettings, engineSettings, resetEngineSettings]);
 
+  const handleResetEngineAfterError = () => {
+    resetEngineSettings();
+    window.location.reload();
+  };
 
   const handlePoseInitReady = useCallback(() => {
-    console.log("App: Pose Landmarker Ready. Setting phase to IDLE.");
-    setAppPhase(ExercisePhase.IDLE);
-    setLogicPhase(ExercisePhase.IDLE); // Also update logic hook's phase
-  }, [setLogicPhase]);
+    console.log("App: Pose Landmarker Ready.");
+    dispatch({ type: "ENGINE_READY" });
+  }, [dispatch]);
 
 
   useEffect(() => {
     const fetchConfig = async () => {
-      setAppPhase(ExercisePhase.LOADING_CONFIG);
       setConfigError(null);
+      setConfigIssues(null);
       try {
         const response = await fetch(CONFIG_FILE_PATH);
         if (!response.ok) {
           throw new Error(`Failed to load config: ${response.statusText}`);
         }
-        const data: ExerciseConfig = await response.json();
-        setConfig(data);
-        // Phase transition to INITIALIZING_POSE will happen in the effect above once config is set.
+        const data: unknown = await response.json();
+        const validation = validateExerciseConfig(data);
+        validation.warnings.forEach(issue => console.warn(`Config warning at ${issue.path}: ${issue.message}`));
+        if (validation.errors.length > 0) {
+          validation.errors.forEach(issue => console.error(`Config error at ${issue.path}: ${issue.message}`));
+          setConfigIssues(validation);
+          setConfigError(`Found ${validation.errors.length} error(s) in ${CONFIG_FILE_PATH}`);
+          dispatch({ type: "CONFIG_FAILED" });
+          return;
+        }
+        const loadedConfig = expandMirroredPoses(data as ExerciseConfig);
+        resetPoseWarnings();
+        setConfig(loadedConfig);
+        setSelectedWorkoutId(getWorkouts(loadedConfig)[0]?.id);
+        dispatch({ type: "CONFIG_LOADED" });
       } catch (error) {
         console.error(error);
         setConfigError((error as Error).message);
-        setAppPhase(ExercisePhase.CONFIG_ERROR);
+        dispatch({ type: "CONFIG_FAILED" });
       }
     };
     fetchConfig();
-  }, []); 
+  }, [dispatch]); 
 
   useEffect(() => {
     const getVideoDevices = async () => {
@@ -107,53 +196,119 @@ const App: React.FC = () => {
           setSelectedVideoDeviceId(videoDevices[0].deviceId);
         }
       } catch (error) {
+        // No camera is fine when a video file is used; VideoFeed reports camera errors when the camera is the input.
         console.error("Error enumerating video devices or getting permission:", error);
-        // If permission denied, it often manifests as a camera error here.
-        // The VideoFeed component will also try to get user media and report error.
-        if ((error as Error).name === "NotAllowedError" || (error as Error).name === "NotFoundError") {
-            handleCameraError();
-        }
       }
     };
-    if (appPhase !== ExercisePhase.LOADING_CONFIG && appPhase !== ExercisePhase.CONFIG_ERROR) {
+    if (phase !== ExercisePhase.LOADING_CONFIG && phase !== ExercisePhase.CONFIG_ERROR && inputSource.kind === "camera") {
         getVideoDevices();
     }
-  }, [appPhase, selectedVideoDeviceId, handleCameraError]);
+  }, [phase, selectedVideoDeviceId, inputSource]);
 
+  // Keep file playback in step with the workout: the video waits while the next pose is introduced
+  useEffect(() => {
+    if (!playbackVideo || inputSource.kind !== "file") return;
+    if (isPaused) {
+      playbackVideo.pause();
+    } else if (phase === ExercisePhase.FRAMING || phase === ExercisePhase.CORRECTION) {
+      playbackVideo.play().catch(err => console.error("Error resuming video:", err));
+    } else if (phase === ExercisePhase.DESCRIPTION || phase === ExercisePhase.IMAGE || phase === ExercisePhase.REST || phase === ExercisePhase.COMPLETED) {
+      playbackVideo.pause();
+    }
+  }, [phase, isPaused, playbackVideo, inputSource]);
+
+  const handleVideoFileError = useCallback((message: string) => {
+    setInputFileError(message);
+    setVideoFile(null);
+  }, []);
 
-  const handleLandmarks = (landmarks: PoseLandmarks, frameWidth: number, frameHeight: number) => {
-    // Only process if the app (and logic) is in correction phase and pose is initialized
-    if (appPhase === ExercisePhase.CORRECTION && logicPhase === ExercisePhase.CORRECTION) {
-      processFrameLandmarks(landmarks, frameWidth, frameHeight);
+  const handleSelectInputFile = async (file: File | null) => {
+    setInputFileError(null);
+    if (file && file.name.toLowerCase().endsWith('.json')) {
+      try {
+        const trace = parseTrace(await file.text());
+        setTraceInput({ frames: trace.frames, name: file.name });
+        setIsTracePaused(false);
+        setVideoFile(null);
+      } catch (error) {
+        console.error("Error loading landmark trace:", error);
+        setInputFileError(`Could not load trace "${file.name}": ${(error as Error).message}`);
+        return;
+      }
+    } else {
+      setTraceInput(null);
+      setVideoFile(file);
+    }
+    if (file) {
+      // After a camera error the feed is remounted for the new input and reports readiness again
+      dispatch({ type: "INPUT_CHANGED" });
     }
   };
-  
-  const handleStartWorkout = () => {
-    if (appPhase === ExercisePhase.IDLE && logicPhase === ExercisePhase.IDLE) {
-      startNextPose();
-    } else {
-      console.warn("Cannot start workout, app not in IDLE state or MediaPipe not ready.", appPhase, logicPhase);
+
+  const handleToggleRecording = () => {
+    if (!isRecording) {
+      startRecording();
+      return;
+    }
+    const sourceName = inputSource.kind === "file" ? inputSource.file.name : "camera";
+    const trace = stopRecording(sourceName);
+    if (trace) {
+      downloadTrace(trace, `landmark-trace-${trace.recorded_at.replace(/[:.]/g, '-')}.json`);
+    }
+  };
+
+
+  const isAuthoring = phase === ExercisePhase.IDLE && showAuthoring;
+
+  const handleLandmarks = (rawFrame: PoseFrame) => {
+    recordFrame(rawFrame);
+    // Only re-renders when someone enters or leaves the view
+    const personIds = (rawFrame.people ?? []).map(person => person.id);
+    setVisiblePersonIds(previous => (previous.join() === personIds.join() ? previous : personIds));
+    const frame = focusOnPerson(rawFrame, lockedPersonId);
+    if (isAuthoring) {
+      authoring.recordFrame(frame);
+      return;
+    }
+    if (phase === ExercisePhase.FRAMING || phase === ExercisePhase.CORRECTION) {
+      processFrameLandmarks(frame);
     }
   };
   
-  const handleResetWorkout = () => {
-    resetWorkout();
-    // After reset, if config is fine, it should go back to IDLE (or INITIALIZING_POSE if that's the flow)
-    if (config) {
-        setAppPhase(ExercisePhase.IDLE); // Or INITIALIZING_POSE if video needs re-init
-        setLogicPhase(ExercisePhase.IDLE); // Reset logic phase too
+  // Reads out the first pose's description, so the voice is heard with text in the chosen language
+  const handleTestVoice = () => {
+    const firstPose = config && Object.values(config.poses)[0];
+    stopTTS();
+    speak(localize(firstPose?.description, locale) || getMessages(locale).voicePreview);
+  };
+
+  const handleCloseAuthoring = () => {
+    authoring.cancelCapture();
+    setShowAuthoring(false);
+  };
+
+  const handleStartWorkout = () => {
+    if (!selectedWorkout) {
+      console.warn("Cannot start workout, no workout selected.");
+    } else if (phase === ExercisePhase.IDLE) {
+      startWorkout();
     } else {
-        setAppPhase(ExercisePhase.LOADING_CONFIG); // Should not happen if reset is available
+      console.warn("Cannot start workout, app not in IDLE state or MediaPipe not ready.", phase);
     }
-  }
+  };
 
 
   const renderContent = () => {
-    switch (appPhase) {
+    switch (phase) {
       case ExercisePhase.LOADING_CONFIG:
         return <p className="text-2xl text-center p-8">Loading exercise configuration...</p>;
       case ExercisePhase.CONFIG_ERROR:
-        return <p className="text-2xl text-red-500 text-center p-8">Error loading configuration: {configError}. Please check console and public/exercise_config.json.</p>;
+        return (
+          <div className="flex flex-col items-center p-8 space-y-6">
+            <p className="text-2xl text-red-500 text-center">Error loading configuration: {configError}. Please check console and public/exercise_config.json.</p>
+            {configIssues && <ConfigIssueList errors={configIssues.errors} warnings={configIssues.warnings} />}
+          </div>
+        );
       case ExercisePhase.INITIALIZING_POSE:
         return <p className="text-2xl text-center p-8">Initializing AI Engine...</p>;
       case ExercisePhase.POSE_INIT_ERROR:
@@ -161,14 +316,22 @@ const App: React.FC = () => {
             <div className="text-center p-8">
                 <p className="text-2xl text-red-500">AI Engine Error</p>
                 <p className="mt-2 text-lg">Could not initialize the AI pose detection engine. This might be due to model loading issues or browser incompatibility.</p>
-                <p className="mt-1 text-sm">Please ensure you have a stable internet connection, try refreshing the page, or check the browser console for details.</p>
-                 <p className="mt-1 text-xs">Make sure `public/models/pose_landmarker_lite.task` exists.</p>
-                <button
-                    onClick={() => window.location.reload()}
-                    className="mt-6 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition-colors"
-                >
-                    Refresh Page
-                </button>
+                <p className="mt-1 text-sm">Try refreshing the page, or check the browser console for details.</p>
+                 <p className="mt-1 text-xs">Make sure `public/models/pose_landmarker_lite.task` exists; `npm install` downloads it.</p>
+                <div className="mt-6 flex justify-center space-x-4">
+                    <button
+                        onClick={() => window.location.reload()}
+                        className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition-colors"
+                    >
+                        Refresh Page
+                    </button>
+                    <button
+                        onClick={handleResetEngineAfterError}
+                        className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded transition-colors"
+                    >
+                        Reset Engine Settings
+                    </button>
+                </div>
             </div>
         );
       case ExercisePhase.CAMERA_ERROR:
@@ -183,33 +346,131 @@ const App: React.FC = () => {
                 >
                     Refresh Page
                 </button>
+                <div className="mt-8 flex justify-center">
+                    <InputSourcePicker
+                        videoDevices={[]}
+                        onSelectCamera={setSelectedVideoDeviceId}
+                        selectedFileName={selectedFileName}
+                        onSelectFile={handleSelectInputFile}
+                        fileError={inputFileError}
+                    />
+                </div>
             </div>
         );
       case ExercisePhase.IDLE:
+        if (showAuthoring && config) {
+          return (
+            <div className="flex items-center justify-end h-full w-full p-4">
+              <PoseAuthoringPanel
+                config={config}
+                locale={locale}
+                status={authoring.status}
+                secondsLeft={authoring.secondsLeft}
+                stats={authoring.stats}
+                snapshot={authoring.snapshot}
+                onStartCapture={authoring.startCapture}
+                onCancelCapture={authoring.cancelCapture}
+                onClose={handleCloseAuthoring}
+              />
+            </div>
+          );
+        }
+        if (showSettings) {
+          return (
+            <div className="flex items-center justify-center h-full w-full p-4">
+              <SpeechSettingsPanel
+                settings={speechSettings}
+                locales={configLocales.includes(locale) ? configLocales : [...configLocales, locale]}
+                voices={voices}
+                activeVoice={voice}
+                onChange={updateSpeechSettings}
+                onReset={resetSpeechSettings}
+                onTest={handleTestVoice}
+                onClose={() => setShowSettings(false)}
+              />
+            </div>
+          );
+        }
+        if (showEngineSettings) {
+          return (
+            <div className="flex items-center justify-center h-full w-full p-4">
+              <EngineSettingsPanel
+                settings={engineSettings}
+                status={engineStatus}
+                onApply={updateEngineSettings}
+                onReset={resetEngineSettings}
+                onClose={() => setShowEngineSettings(false)}
+              />
+            </div>
+          );
+        }
+        if (showHistory) {
+          return (
+            <div className="flex items-center justify-center h-full w-full p-4">
+              <SessionHistory onClose={() => setShowHistory(false)} />
+            </div>
+          );
+        }
         return (
           <div className="flex flex-col items-center justify-center h-full p-4">
             <h1 className="text-5xl font-bold mb-8 text-teal-300">AI Exercise Coach</h1>
-            <p className="text-xl mb-8 text-center max-w-2xl">Welcome! Get ready to improve your form with AI-powered guidance. Press Start when you're ready.</p>
-            {availableVideoDevices.length > 1 && (
-                <div className="mb-6">
-                    <label htmlFor="videoDeviceSelect" className="block text-lg font-medium text-gray-300 mb-2">Select Camera:</label>
-                    <select
-                        id="videoDeviceSelect"
-                        value={selectedVideoDeviceId}
-                        onChange={(e) => setSelectedVideoDeviceId(e.target.value)}
-                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
-                    >
-                        {availableVideoDevices.map(device => (
-                            <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${availableVideoDevices.indexOf(device) + 1}`}</option>
-                        ))}
-                    </select>
-                </div>
+            <p className="text-xl mb-8 text-center max-w-2xl">Welcome! Get ready to improve your form with AI-powered guidance. Choose a workout and press Start when you're ready.</p>
+            {config && workouts.length > 1 && (
+              <div className="mb-6 w-full flex justify-center">
+                <WorkoutPicker
+                  config={config}
+                  workouts={workouts}
+                  selectedWorkoutId={selectedWorkoutId}
+                  difficulty={difficulty}
+                  locale={locale}
+                  onSelect={setSelectedWorkoutId}
+                />
+              </div>
             )}
+            <div className="mb-6">
+              <DifficultyPicker difficulty={difficulty} onSelect={setDifficulty} />
+            </div>
+            <div className="mb-6">
+              <TrackingModePicker mode={trackingMode} onSelect={setTrackingMode} />
+            </div>
+            <InputSourcePicker
+              videoDevices={availableVideoDevices}
+              selectedVideoDeviceId={selectedVideoDeviceId}
+              onSelectCamera={setSelectedVideoDeviceId}
+              selectedFileName={selectedFileName}
+              onSelectFile={handleSelectInputFile}
+              fileError={inputFileError}
+            />
             <button
               onClick={handleStartWorkout}
-              className="bg-green-500 hover:bg-green-700 text-white font-bold py-3 px-8 rounded-lg text-2xl transition-transform duration-150 ease-in-out hover:scale-105 shadow-lg"
+              disabled={!selectedWorkout}
+              className="bg-green-500 hover:bg-green-700 disabled:bg-gray-600 disabled:hover:scale-100 text-white font-bold py-3 px-8 rounded-lg text-2xl transition-transform duration-150 ease-in-out hover:scale-105 shadow-lg"
+            >
+              {selectedWorkout && workouts.length > 1 ? `Start ${selectedWorkout.title}` : 'Start Workout'}
+            </button>
+            <button
+              onClick={() => setShowHistory(true)}
+              className="mt-4 text-teal-300 hover:text-teal-100 underline"
             >
-              Start Workout
+              View History
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="mt-2 text-teal-300 hover:text-teal-100 underline"
+            >
+              Voice &amp; Language
+            </button>
+            <button
+              onClick={() => setShowEngineSettings(true)}
+              className="mt-2 text-teal-300 hover:text-teal-100 underline"
+            >
+              AI Engine
+            </button>
+            <button
+              onClick={() => setShowAuthoring(true)}
+              className="mt-2 text-teal-300 hover:text-teal-100 underline"
+            >
+              Author a Pose
             </button>
           </div>
         );
@@ -217,7 +478,7 @@ const App: React.FC = () => {
         return (
           <div className="flex flex-col items-center justify-center h-full p-8 bg-black bg-opacity-60">
             <h2 className="text-4xl font-bold mb-4 text-teal-300">Get Ready: {currentPoseDisplayName}</h2>
-            {currentPoseData?.description && wrapText(currentPoseData.description, 60).map((line, idx) => (
+            {currentPoseData?.description && wrapText(localize(currentPoseData.description, locale), 60).map((line, idx) => (
               <p key={idx} className="text-xl text-gray-200 mb-2 text-center max-w-3xl">{line}</p>
             ))}
           </div>
@@ -225,18 +486,42 @@ const App: React.FC = () => {
       case ExercisePhase.IMAGE:
         return currentPoseData && (
           <div className="flex items-center justify-center h-full">
-            <PoseImage imagePath={currentPoseData.image_path} poseName={currentPoseDisplayName} />
+            <PoseImage imagePath={currentPoseData.image_path} poseName={currentPoseDisplayName} mirrored={!!currentPoseData.mirror_of} />
+          </div>
+        );
+      case ExercisePhase.FRAMING:
+        // Kept near the top, so the guidance doesn't cover the user or the target figure's feet
+        return (
+          <div className="absolute top-32 left-1/2 -translate-x-1/2 w-full max-w-md p-4 bg-black bg-opacity-70 rounded-lg text-center space-y-2">
+            <h2 className="text-2xl font-bold text-teal-300">Get into position: {currentPoseDisplayName}</h2>
+            <p className="text-lg text-gray-200">{framing?.message || 'Hold still...'}</p>
+            <div className="w-full h-2 rounded-full bg-gray-600">
+              <div className="h-2 rounded-full bg-green-500 transition-all duration-100" style={{ width: `${(framing?.progress ?? 0) * 100}%` }}></div>
+            </div>
           </div>
         );
       case ExercisePhase.CORRECTION:
         return ( <></> ); // VideoFeed takes full space, FeedbackDisplay overlays it
+      case ExercisePhase.REST:
+        return (
+          <div className="flex flex-col items-center justify-center h-full p-8 bg-black bg-opacity-60">
+            <h2 className="text-4xl font-bold mb-4 text-teal-300">Rest</h2>
+            <p className="text-8xl font-bold text-white mb-6 tabular-nums">{restSecondsLeft}</p>
+            {upNextDisplayName && <p className="text-2xl text-gray-200">Up next: {upNextDisplayName}</p>}
+          </div>
+        );
       case ExercisePhase.COMPLETED:
         return (
           <div className="flex flex-col items-center justify-center h-full p-4">
             <h1 className="text-5xl font-bold mb-8 text-green-400">Workout Complete!</h1>
-            <p className="text-2xl mb-8 text-center">Great job! You've finished the session.</p>
+            <p className="text-2xl mb-6 text-center">Great job! You've finished the session.</p>
+            {sessionSummary && (
+              <div className="mb-8 w-full flex justify-center">
+                <SessionSummary session={sessionSummary} />
+              </div>
+            )}
             <button
-              onClick={handleResetWorkout}
+              onClick={resetWorkout}
               className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-3 px-8 rounded-lg text-2xl transition-transform duration-150 ease-in-out hover:scale-105 shadow-lg"
             >
               Start Over
@@ -244,64 +529,156 @@ const App: React.FC = () => {
           </div>
         );
       default:
-        return <p>Unknown application phase: {appPhase}.</p>;
+        return <p>Unknown application phase: {phase}.</p>;
     }
   };
 
   const showVideoFeed = 
-    appPhase === ExercisePhase.IDLE || // Show for camera selection
-    appPhase === ExercisePhase.INITIALIZING_POSE || // Ensure VideoFeed is active for AI engine init
-    appPhase === ExercisePhase.DESCRIPTION || 
-    appPhase === ExercisePhase.IMAGE || 
-    appPhase === ExercisePhase.CORRECTION;
+    phase === ExercisePhase.IDLE || // Show for camera selection
+    phase === ExercisePhase.INITIALIZING_POSE || // Ensure VideoFeed is active for AI engine init
+    phase === ExercisePhase.DESCRIPTION || 
+    phase === ExercisePhase.IMAGE || 
+    phase === ExercisePhase.FRAMING ||
+    phase === ExercisePhase.CORRECTION ||
+    phase === ExercisePhase.REST; // Kept mounted so the AI engine doesn't restart after a rest
+
+  const isWorkoutActive = phase === ExercisePhase.DESCRIPTION || phase === ExercisePhase.IMAGE ||
+    phase === ExercisePhase.FRAMING || phase === ExercisePhase.CORRECTION || phase === ExercisePhase.REST;
+
+  // A trace plays from the start of the workout and stops while it is paused, and its frames move traceClock;
+  // authoring reads live angles from it too
+  const isTracePlaying = !isTracePaused && !isPaused && (isAuthoring || isWorkoutActive);
 
   return (
     <div className="h-screen w-screen flex flex-col relative overflow-hidden bg-gray-800">
       {showVideoFeed && config && (
         <div 
-            className={`absolute inset-0 transition-opacity duration-500 ${appPhase === ExercisePhase.CORRECTION || appPhase === ExercisePhase.IDLE ? 'opacity-100' : 'opacity-30'}`}
-            style={{ visibility: (appPhase === ExercisePhase.IDLE && !selectedVideoDeviceId) ? 'hidden' : 'visible' }} // Hide if IDLE and no camera selected for preview
+            className={`absolute inset-0 transition-opacity duration-500 ${phase === ExercisePhase.FRAMING || phase === ExercisePhase.CORRECTION || phase === ExercisePhase.IDLE ? 'opacity-100' : 'opacity-30'}`}
+            style={{ visibility: (phase === ExercisePhase.IDLE && inputSource.kind === "camera" && !inputSource.deviceId) ? 'hidden' : 'visible' }} // Hide if IDLE and no camera selected for preview
         >
-          <VideoFeed
-            onLandmarks={handleLandmarks}
-            angleDetailsToDraw={angleDetails}
-            onCameraError={handleCameraError}
-            onPoseInitReady={handlePoseInitReady}
-            onPoseInitError={handlePoseInitError}
-            debugMode={showDebug}
-            videoDeviceId={selectedVideoDeviceId}
-          />
+          {inputSource.kind === "trace" ? (
+            <TraceFeed
+              frames={inputSource.frames}
+              onLandmarks={handleLandmarks}
+              angleDetailsRef={isAuthoring ? authoring.liveAnglesRef : overlayRef}
+              participantsRef={participantsRef}
+              focusedPersonId={lockedPersonId}
+              framingRef={framingRef}
+              onPoseInitReady={handlePoseInitReady}
+              clock={traceClock ?? undefined}
+              paused={!isTracePlaying}
+              debugMode={showDebug}
+            />
+          ) : (
+            <VideoFeed
+              inputSource={inputSource}
+              onLandmarks={handleLandmarks}
+              angleDetailsRef={isAuthoring ? authoring.liveAnglesRef : overlayRef}
+              participantsRef={participantsRef}
+              focusedPersonId={lockedPersonId}
+              framingRef={framingRef}
+              onCameraError={handleCameraError}
+              onVideoFileError={handleVideoFileError}
+              onPoseInitReady={handlePoseInitReady}
+              onPoseInitError={handlePoseInitError}
+              engineSettings={engineSettings}
+              onEngineStatus={setEngineStatus}
+              onVideoElement={setPlaybackVideo}
+              debugMode={showDebug}
+            />
+          )}
         </div>
       )}
+
+      {showVideoFeed && videoFile && playbackVideo && (
+        <PlaybackControls video={playbackVideo} fileName={videoFile.name} />
+      )}
       
       <div className="relative z-10 flex-grow flex items-center justify-center">
         {renderContent()}
       </div>
 
-      {appPhase === ExercisePhase.CORRECTION && (
+      {phase === ExercisePhase.CORRECTION && (
         <FeedbackDisplay
           messages={feedbackMessages}
           holdProgress={holdProgress}
           currentPoseName={currentPoseDisplayName}
+          repCount={repCount}
+          repTarget={repTarget}
+          holdSeconds={holdSeconds}
+          difficultyLabel={DIFFICULTY_LEVELS[difficulty].label}
+          score={poseScore}
+          criteria={angleDetails}
+          groupProgress={groupProgress}
         />
       )}
 
+      {isWorkoutActive && workoutProgress && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 px-3 py-1 bg-black bg-opacity-70 rounded-full text-sm text-gray-200 whitespace-nowrap">
+          {formatWorkoutProgress(workoutProgress)}
+        </div>
+      )}
+
+      {isWorkoutActive && (
+        <WorkoutControls
+          isPaused={isPaused}
+          canGoBack={canGoBack}
+          onTogglePause={isPaused ? resumeWorkout : pauseWorkout}
+          onSkip={skipPose}
+          onPrevious={previousPose}
+        />
+      )}
+
+      {engineNotice && (
+        <div className="absolute top-14 right-4 z-20 max-w-sm flex items-start space-x-2 p-3 bg-gray-800 bg-opacity-90 rounded-lg text-sm text-yellow-300">
+          <span>{engineNotice}</span>
+          <button onClick={() => setEngineNotice(null)} className="text-gray-300 hover:text-white text-xs underline">Dismiss</button>
+        </div>
+      )}
+
       <div className="absolute top-4 right-4 z-20 flex space-x-2">
+        {showVideoFeed && inputSource.kind !== "trace" && engineStatus && (
+          <span
+            title={engineStatus.fallbackReason ? `GPU could not start: ${engineStatus.fallbackReason}` : undefined}
+            className={`${engineStatus.fallbackReason ? 'text-yellow-300' : 'text-gray-300'} bg-gray-700 text-xs py-1 px-2 rounded`}
+          >
+            {engineStatus.model} · {engineStatus.delegate}{engineStatus.fallbackReason ? ' (GPU unavailable)' : ''}
+          </span>
+        )}
+        {showVideoFeed && trackingMode === "single" && (visiblePersonIds.length > 1 || lockedPersonId !== null) && (
+          <PersonLockSelect personIds={visiblePersonIds} lockedPersonId={lockedPersonId} onLock={setLockedPersonId} />
+        )}
         <button
           onClick={() => setShowDebug(!showDebug)}
           className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-2 rounded"
         >
           Debug Lines {showDebug ? 'ON' : 'OFF'}
         </button>
-         { (appPhase !== ExercisePhase.IDLE && 
-            appPhase !== ExercisePhase.LOADING_CONFIG && 
-            appPhase !== ExercisePhase.CONFIG_ERROR && 
-            appPhase !== ExercisePhase.CAMERA_ERROR &&
-            appPhase !== ExercisePhase.INITIALIZING_POSE &&
-            appPhase !== ExercisePhase.POSE_INIT_ERROR
+        {showVideoFeed && inputSource.kind !== "trace" && (
+          <button
+            onClick={handleToggleRecording}
+            className={`${isRecording ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'} text-white text-xs py-1 px-2 rounded`}
+          >
+            {isRecording ? `Stop & Save Trace (${recordedFrameCount})` : 'Record Trace'}
+          </button>
+        )}
+        {showVideoFeed && inputSource.kind === "trace" && (
+          <button
+            onClick={() => setIsTracePaused(!isTracePaused)}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-2 rounded"
+          >
+            {isTracePaused ? 'Resume Trace' : 'Pause Trace'}
+          </button>
+        )}
+         { (phase !== ExercisePhase.IDLE && 
+            phase !== ExercisePhase.LOADING_CONFIG && 
+            phase !== ExercisePhase.CONFIG_ERROR && 
+            phase !== ExercisePhase.CAMERA_ERROR &&
+            phase !== ExercisePhase.INITIALIZING_POSE &&
+            phase !== ExercisePhase.POSE_INIT_ERROR
             ) &&
          <button
-            onClick={handleResetWorkout}
+            onClick={resetWorkout}
             className="bg-red-500 hover:bg-red-700 text-white text-xs py-1 px-2 rounded"
           >
             Reset Workout
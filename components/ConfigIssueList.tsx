@@ -0,0 +1,39 @@
+import React from 'react';
+import { ConfigIssue } from '../services/configValidator';
+
+interface ConfigIssueListProps {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+const ConfigIssueList: React.FC<ConfigIssueListProps> = ({ errors, warnings }) => {
+  const renderIssues = (issues: ConfigIssue[], colorClass: string) => (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li key={index} className="text-sm">
+          <code className={`font-mono ${colorClass}`}>{issue.path}</code>
+          <span className="text-gray-300">: {issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="w-full max-w-3xl max-h-[60vh] overflow-y-auto text-left bg-black bg-opacity-50 rounded-lg p-4 space-y-4">
+      {errors.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-red-400 mb-2">Errors ({errors.length})</h3>
+          {renderIssues(errors, 'text-red-300')}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-yellow-400 mb-2">Warnings ({warnings.length})</h3>
+          {renderIssues(warnings, 'text-yellow-300')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConfigIssueList;
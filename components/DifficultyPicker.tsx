@@ -0,0 +1,30 @@
+import React from 'react';
+import { Difficulty } from '../types';
+import { DIFFICULTY_LEVELS } from '../constants';
+
+interface DifficultyPickerProps {
+  difficulty: Difficulty;
+  onSelect: (difficulty: Difficulty) => void;
+}
+
+const DifficultyPicker: React.FC<DifficultyPickerProps> = ({ difficulty, onSelect }) => {
+  const levels = Object.keys(DIFFICULTY_LEVELS) as Difficulty[];
+  return (
+    <div className="flex items-center space-x-3">
+      <span className="text-lg font-medium text-gray-300">Difficulty:</span>
+      <div className="flex rounded-lg overflow-hidden border border-gray-600">
+        {levels.map(level => (
+          <button
+            key={level}
+            onClick={() => onSelect(level)}
+            className={`py-2 px-4 text-sm font-medium transition-colors ${level === difficulty ? 'bg-teal-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          >
+            {DIFFICULTY_LEVELS[level].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DifficultyPicker;
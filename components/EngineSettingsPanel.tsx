@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { EngineSettings, EngineStatus, InferenceDelegate, PoseModelVariant } from '../types';
+import { DEFAULT_ENGINE_SETTINGS, MAX_TRACKED_PEOPLE, POSE_MODEL_PATHS } from '../constants';
+import Slider from './Slider';
+
+interface EngineSettingsPanelProps {
+  settings: EngineSettings;
+  status: EngineStatus | null; // What is actually running, which may differ from the settings after a fallback
+  onApply: (settings: EngineSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const MODEL_OPTIONS: { value: PoseModelVariant; label: string }[] = [
+  { value: "lite", label: "Lite (fastest)" },
+  { value: "full", label: "Full" },
+  { value: "heavy", label: "Heavy (most accurate)" },
+];
+
+const DELEGATE_OPTIONS: { value: InferenceDelegate; label: string }[] = [
+  { value: "GPU", label: "GPU (falls back to CPU)" },
+  { value: "CPU", label: "CPU" },
+];
+
+// Cached by the service worker counts as installed; otherwise a HEAD request tells, since the dev server answers missing files with index.html
+const isModelInstalled = async (variant: PoseModelVariant): Promise<boolean> => {
+  const path = POSE_MODEL_PATHS[variant];
+  try {
+    if (typeof caches !== "undefined" && await caches.match(path)) return true;
+    const response = await fetch(path, { method: "HEAD" });
+    return response.ok && !(response.headers.get("content-type") ?? "").includes("text/html");
+  } catch {
+    return false;
+  }
+};
+
+const selectClass = "bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5";
+
+const EngineSettingsPanel: React.FC<EngineSettingsPanelProps> = ({ settings, status, onApply, onReset, onClose }) => {
+  // Edited as a draft, since every applied change restarts the engine
+  const [draft, setDraft] = useState<EngineSettings>(settings);
+  const onChange = (changes: Partial<EngineSettings>) => setDraft(previous => ({ ...previous, ...changes }));
+  const hasChanges = (Object.keys(draft) as (keyof EngineSettings)[]).some(key => draft[key] !== settings[key]);
+  // Unknown until checked, so nothing is disabled while the checks run
+  const [installedModels, setInstalledModels] = useState<Partial<Record<PoseModelVariant, boolean>>>({});
+  const isDraftModelMissing = installedModels[draft.model] === false;
+
+  useEffect(() => {
+    let cancelled = false;
+    MODEL_OPTIONS.forEach(({ value }) => {
+      isModelInstalled(value).then(installed => {
+        if (!cancelled) setInstalledModels(previous => ({ ...previous, [value]: installed }));
+      });
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleReset = () => {
+    onReset();
+    setDraft(DEFAULT_ENGINE_SETTINGS);
+  };
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 bg-opacity-95 rounded-lg p-6 space-y-4 shadow-2xl">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold text-teal-300">AI Engine</h2>
+        <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded">Close</button>
+      </div>
+
+      <p className="text-sm text-gray-300">
+        {status ? (
+          <>
+            Running the <span className="font-semibold">{status.model}</span> model on <span className="font-semibold">{status.delegate}</span>.
+            {status.fallbackReason && <span className="block text-yellow-300 mt-1">GPU could not start ({status.fallbackReason}), so CPU is used.</span>}
+          </>
+        ) : 'Starting the engine...'}
+      </p>
+
+      <div>
+        <label htmlFor="modelSelect" className="block text-sm font-medium text-gray-300 mb-1">Model</label>
+        <select
+          id="modelSelect"
+          value={draft.model}
+          onChange={(e) => onChange({ model: e.target.value as PoseModelVariant })}
+          className={selectClass}
+        >
+          {MODEL_OPTIONS.map(option => {
+            const isMissing = installedModels[option.value] === false;
+            return (
+              <option key={option.value} value={option.value} disabled={isMissing}>
+                {option.label}{isMissing ? ' (not installed)' : ''}
+              </option>
+            );
+          })}
+        </select>
+        {Object.values(installedModels).includes(false) && (
+          <p className={`text-xs mt-1 ${isDraftModelMissing ? 'text-yellow-300' : 'text-gray-400'}`}>
+            Run `npm run fetch-models` to install the other models.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="delegateSelect" className="block text-sm font-medium text-gray-300 mb-1">Backend</label>
+        <select
+          id="delegateSelect"
+          value={draft.delegate}
+          onChange={(e) => onChange({ delegate: e.target.value as InferenceDelegate })}
+          className={selectClass}
+        >
+          {DELEGATE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <Slider label="People to detect" value={draft.numPoses} min={1} max={MAX_TRACKED_PEOPLE} step={1} digits={0}
+        onChange={numPoses => onChange({ numPoses })} />
+      <Slider label="Detection confidence" value={draft.minPoseDetectionConfidence} min={0.1} max={0.9} step={0.05} digits={2}
+        onChange={minPoseDetectionConfidence => onChange({ minPoseDetectionConfidence })} />
+      <Slider label="Presence confidence" value={draft.minPosePresenceConfidence} min={0.1} max={0.9} step={0.05} digits={2}
+        onChange={minPosePresenceConfidence => onChange({ minPosePresenceConfidence })} />
+      <Slider label="Tracking confidence" value={draft.minTrackingConfidence} min={0.1} max={0.9} step={0.05} digits={2}
+        onChange={minTrackingConfidence => onChange({ minTrackingConfidence })} />
+      <p className="text-xs text-gray-400">Applying restarts the engine. Lower thresholds keep tracking in poor light but accept more mistakes. Each extra person detected costs some speed.</p>
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => onApply(draft)}
+          disabled={!hasChanges || isDraftModelMissing}
+          className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 text-white font-medium py-2 px-4 rounded"
+        >
+          Apply
+        </button>
+        <button onClick={handleReset} className="text-teal-300 hover:text-teal-100 underline text-sm">Reset to defaults</button>
+      </div>
+    </div>
+  );
+};
+
+export default EngineSettingsPanel;
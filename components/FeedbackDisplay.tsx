@@ -1,31 +1,78 @@
 
 import React from 'react';
+import { AngleDetail } from '../types';
 import { COLOR_PROGRESS_BAR_BG, COLOR_PROGRESS_BAR_FG, COLOR_TEXT } from '../constants';
+import { scoreToColor } from '../services/poseUtils';
 
 interface FeedbackDisplayProps {
   messages: string[];
   holdProgress: number; // 0 to 1
   currentPoseName?: string;
+  repCount?: number;
+  repTarget?: number; // When set, rep progress replaces the hold bar
+  holdSeconds?: number;
+  difficultyLabel?: string;
+  score?: number; // Overall form score, 0 to 100
+  criteria?: AngleDetail[]; // Shown as one gauge per criterion
+  groupProgress?: { completed: number; total: number } | null; // In group mode the bar counts people done instead
 }
 
-const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ messages, holdProgress, currentPoseName }) => {
+const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ messages, holdProgress, currentPoseName, repCount = 0, repTarget = 0, holdSeconds, difficultyLabel, score, criteria = [], groupProgress = null }) => {
+  const isRepMode = repTarget > 0;
+  const progress = groupProgress
+    ? (groupProgress.total > 0 ? groupProgress.completed / groupProgress.total : 0)
+    : isRepMode ? Math.min(repCount / repTarget, 1) : holdProgress;
+  const progressLabel = groupProgress
+    ? `Done: ${groupProgress.completed} / ${groupProgress.total} people`
+    : isRepMode ? `Reps: ${repCount} / ${repTarget}` : `Hold Progress: ${Math.round(holdProgress * 100)}%${holdSeconds ? ` of ${Math.round(holdSeconds * 10) / 10}s` : ''}`;
+
   return (
     <div className="absolute bottom-4 left-4 right-4 md:left-8 md:right-auto md:max-w-md p-4 bg-black bg-opacity-70 rounded-lg shadow-2xl space-y-3">
       {currentPoseName && (
-        <h3 className="text-xl font-semibold text-teal-400">Current: {currentPoseName}</h3>
+        <div className="flex items-baseline justify-between">
+          <h3 className="text-xl font-semibold text-teal-400">Current: {currentPoseName}</h3>
+          {difficultyLabel && <span className="text-xs text-gray-400 ml-2 whitespace-nowrap">{difficultyLabel}</span>}
+        </div>
       )}
       
       {/* Progress Bar */}
       <div className="w-full">
-        <div className="text-sm font-medium text-gray-300 mb-1">Hold Progress: {Math.round(holdProgress * 100)}%</div>
+        <div className="text-sm font-medium text-gray-300 mb-1">
+          {progressLabel}
+        </div>
         <div className="w-full h-6 rounded-full" style={{ backgroundColor: COLOR_PROGRESS_BAR_BG }}>
           <div
             className="h-6 rounded-full transition-all duration-300 ease-linear"
-            style={{ width: `${holdProgress * 100}%`, backgroundColor: COLOR_PROGRESS_BAR_FG }}
+            style={{ width: `${progress * 100}%`, backgroundColor: COLOR_PROGRESS_BAR_FG }}
           ></div>
         </div>
       </div>
 
+      {/* Form Score */}
+      {score !== undefined && (
+        <div>
+          <div className="flex items-baseline justify-between text-sm font-medium text-gray-300 mb-1">
+            <span>Form Score</span>
+            <span className="text-2xl font-bold" style={{ color: scoreToColor(score) }}>{Math.round(score)}</span>
+          </div>
+          {criteria.length > 0 && (
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {criteria.map(detail => (
+                <div key={detail.name} title={`${detail.name.replace(/_/g, ' ')}: ${Math.round(detail.score)}`}>
+                  <div className="text-xs text-gray-400 truncate">{detail.name.replace(/_/g, ' ')}</div>
+                  <div className="w-full h-1.5 rounded-full" style={{ backgroundColor: COLOR_PROGRESS_BAR_BG }}>
+                    <div
+                      className="h-1.5 rounded-full transition-all duration-300 ease-linear"
+                      style={{ width: `${detail.score}%`, backgroundColor: scoreToColor(detail.score) }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Feedback Messages */}
       {messages.length > 0 && (
         <div className="space-y-1">
@@ -36,8 +83,8 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ messages, holdProgres
           ))}
         </div>
       )}
-      {messages.length === 0 && holdProgress < 1 && currentPoseName && (
-         <p className="text-sm text-green-400">Looking good! Keep holding.</p>
+      {messages.length === 0 && progress < 1 && currentPoseName && (
+         <p className="text-sm text-green-400">{isRepMode ? 'Looking good! Keep going.' : 'Looking good! Keep holding.'}</p>
       )}
     </div>
   );
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+
+interface InputSourcePickerProps {
+  videoDevices: MediaDeviceInfo[];
+  selectedVideoDeviceId?: string;
+  onSelectCamera: (deviceId: string) => void;
+  selectedFileName: string | null; // Video file or landmark trace in use instead of the camera
+  onSelectFile: (file: File | null) => void;
+  fileError?: string | null;
+}
+
+const isSupportedFile = (file: File) => file.type.startsWith('video/') || file.name.toLowerCase().endsWith('.json');
+
+const InputSourcePicker: React.FC<InputSourcePickerProps> = ({
+  videoDevices,
+  selectedVideoDeviceId,
+  onSelectCamera,
+  selectedFileName,
+  onSelectFile,
+  fileError,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = Array.from(e.dataTransfer.files).find(isSupportedFile);
+    if (file) onSelectFile(file);
+  };
+
+  return (
+    <div className="mb-6 w-full max-w-md space-y-3">
+      {!selectedFileName && videoDevices.length > 1 && (
+        <div>
+          <label htmlFor="videoDeviceSelect" className="block text-lg font-medium text-gray-300 mb-2">Select Camera:</label>
+          <select
+            id="videoDeviceSelect"
+            value={selectedVideoDeviceId}
+            onChange={(e) => onSelectCamera(e.target.value)}
+            className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+          >
+            {videoDevices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${index + 1}`}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-3 text-center text-sm transition-colors ${isDragging ? 'border-teal-300 bg-teal-900 bg-opacity-40' : 'border-gray-600 bg-black bg-opacity-40'}`}
+      >
+        {selectedFileName ? (
+          <div className="flex items-center justify-between space-x-2">
+            <span className="truncate text-gray-200" title={selectedFileName}>Using: {selectedFileName}</span>
+            <button
+              onClick={() => onSelectFile(null)}
+              className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-2 rounded whitespace-nowrap"
+            >
+              Use Camera
+            </button>
+          </div>
+        ) : (
+          <label className="cursor-pointer text-gray-300">
+            Drop a video or landmark trace (.json) here or <span className="text-teal-300 underline">browse</span> to use it instead of the camera
+            <input
+              type="file"
+              accept="video/*,.json,application/json"
+              className="hidden"
+              onChange={(e) => onSelectFile(e.target.files?.[0] || null)}
+            />
+          </label>
+        )}
+      </div>
+      {fileError && <p className="text-sm text-red-400">{fileError}</p>}
+    </div>
+  );
+};
+
+export default InputSourcePicker;
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface PersonLockSelectProps {
+  personIds: number[]; // People in view, as labelled on the video
+  lockedPersonId: number | null; // Null coaches whoever is largest in the frame
+  onLock: (personId: number | null) => void;
+}
+
+/**
+ * Chooses who is coached when several people are in view. A locked person stays coached while others move around them.
+ */
+const PersonLockSelect: React.FC<PersonLockSelectProps> = ({ personIds, lockedPersonId, onLock }) => {
+  const ids = lockedPersonId !== null && !personIds.includes(lockedPersonId) ? [...personIds, lockedPersonId] : personIds;
+  return (
+    <select
+      value={lockedPersonId ?? ''}
+      onChange={(e) => onLock(e.target.value === '' ? null : Number(e.target.value))}
+      className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-2 rounded"
+      title="Who to coach"
+    >
+      <option value="">Coach: closest person</option>
+      {ids.map(id => (
+        <option key={id} value={id}>
+          Lock on #{id}{personIds.includes(id) ? '' : ' (out of view)'}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default PersonLockSelect;
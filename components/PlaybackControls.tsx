@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { PLAYBACK_RATES } from '../constants';
+
+interface PlaybackControlsProps {
+  video: HTMLVideoElement;
+  fileName: string;
+}
+
+const formatTime = (seconds: number): string => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ video, fileName }) => {
+  const [isPaused, setIsPaused] = useState(video.paused);
+  const [currentTime, setCurrentTime] = useState(video.currentTime);
+  const [duration, setDuration] = useState(video.duration);
+  const [playbackRate, setPlaybackRate] = useState(video.playbackRate);
+
+  // The video can also be paused or resumed by the workout phase, so mirror its state
+  useEffect(() => {
+    const syncState = () => {
+      setIsPaused(video.paused);
+      setCurrentTime(video.currentTime);
+      setDuration(video.duration);
+      setPlaybackRate(video.playbackRate);
+    };
+    const events = ['play', 'pause', 'timeupdate', 'durationchange', 'ratechange', 'seeked', 'ended'];
+    events.forEach(event => video.addEventListener(event, syncState));
+    syncState();
+    return () => events.forEach(event => video.removeEventListener(event, syncState));
+  }, [video]);
+
+  const togglePlay = () => {
+    if (video.paused) {
+      video.play().catch(err => console.error("Error resuming video:", err));
+    } else {
+      video.pause();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-20 w-80 p-3 bg-black bg-opacity-70 rounded-lg shadow-xl space-y-2 text-sm">
+      <div className="truncate text-gray-300" title={fileName}>{fileName}</div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={togglePlay}
+          className="bg-gray-700 hover:bg-gray-600 text-white w-16 py-1 rounded"
+        >
+          {isPaused ? 'Play' : 'Pause'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Number.isFinite(duration) ? duration : 0}
+          step={0.1}
+          value={currentTime}
+          onChange={(e) => { video.currentTime = Number(e.target.value); }}
+          className="flex-grow"
+          aria-label="Seek"
+        />
+      </div>
+      <div className="flex items-center justify-between text-gray-400">
+        <span>{formatTime(currentTime)} / {formatTime(duration)}</span>
+        <label className="flex items-center space-x-1">
+          <span>Speed</span>
+          <select
+            value={playbackRate}
+            onChange={(e) => { video.playbackRate = Number(e.target.value); }}
+            className="bg-gray-700 border border-gray-600 text-white rounded px-1"
+          >
+            {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
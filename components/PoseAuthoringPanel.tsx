@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExerciseConfig, JointCriterion, PoseData } from '../types';
+import { AuthoringStatus } from '../hooks/usePoseAuthoring';
+import { JointAngleStats, ProposedCriterion, formatPoseSnippet, isReliableJoint, proposeCriterion } from '../services/poseAuthoring';
+import { validateExerciseConfig } from '../services/configValidator';
+import ConfigIssueList from './ConfigIssueList';
+
+interface PoseAuthoringPanelProps {
+  config: ExerciseConfig;
+  locale: string; // Of the proposed feedback
+  status: AuthoringStatus;
+  secondsLeft: number;
+  stats: JointAngleStats[];
+  snapshot: string | null;
+  onStartCapture: () => void;
+  onCancelCapture: () => void;
+  onClose: () => void;
+}
+
+interface JointDraft {
+  selected: boolean;
+  criterion: ProposedCriterion;
+}
+
+const inputClass = "bg-gray-700 border border-gray-600 text-white text-sm rounded px-2 py-1";
+
+const PoseAuthoringPanel: React.FC<PoseAuthoringPanelProps> = ({
+  config,
+  locale,
+  status,
+  secondsLeft,
+  stats,
+  snapshot,
+  onStartCapture,
+  onCancelCapture,
+  onClose,
+}) => {
+  const [joints, setJoints] = useState<{ [jointName: string]: JointDraft }>({});
+  const [poseKey, setPoseKey] = useState("new_pose");
+  const [displayName, setDisplayName] = useState("New Pose");
+  const [description, setDescription] = useState("");
+  const [includeSnapshot, setIncludeSnapshot] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  // Every new capture replaces the proposals, but keeps the names typed so far
+  useEffect(() => {
+    const drafts: { [jointName: string]: JointDraft } = {};
+    stats.forEach(jointStats => {
+      drafts[jointStats.jointName] = { selected: isReliableJoint(jointStats), criterion: proposeCriterion(jointStats, locale) };
+    });
+    setJoints(drafts);
+  }, [stats, locale]);
+
+  const updateCriterion = (jointName: string, update: (criterion: ProposedCriterion) => ProposedCriterion) => {
+    setJoints(prev => ({ ...prev, [jointName]: { ...prev[jointName], criterion: update(prev[jointName].criterion) } }));
+  };
+
+  const pose = useMemo<PoseData>(() => {
+    const criteria: { [jointName: string]: JointCriterion } = {};
+    for (const jointName in joints) {
+      if (joints[jointName].selected) criteria[jointName] = joints[jointName].criterion;
+    }
+    return {
+      display_name: displayName,
+      description,
+      ...(includeSnapshot && snapshot ? { image_path: snapshot } : {}),
+      criteria,
+    };
+  }, [joints, displayName, description, includeSnapshot, snapshot]);
+
+  const snippet = formatPoseSnippet(poseKey, pose);
+  useEffect(() => setCopied(false), [snippet]);
+  // Checked against the loaded joint definitions, as if the pose were the only one in the config
+  const issues = useMemo(() => validateExerciseConfig({
+    angle_mode: config.angle_mode,
+    virtual_landmarks: config.virtual_landmarks,
+    joint_definitions: config.joint_definitions,
+    poses: { [poseKey]: pose },
+    sequence: [poseKey],
+  }), [config, poseKey, pose]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy pose JSON:", error);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-gray-900 bg-opacity-95 rounded-lg p-6 space-y-4 max-h-[85vh] overflow-y-auto shadow-2xl">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold text-teal-300">Pose Authoring</h2>
+        <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded">Close</button>
+      </div>
+
+      {status === "idle" && (
+        <div className="space-y-3">
+          <p className="text-gray-300">Strike the pose in front of the camera. Every joint is sampled for a few seconds and criteria are proposed from what was observed.</p>
+          <button onClick={onStartCapture} className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-lg">Capture Pose</button>
+        </div>
+      )}
+      {(status === "countdown" || status === "sampling") && (
+        <div className="flex items-center justify-between">
+          <p className="text-2xl text-gray-100">
+            {status === "countdown" ? `Get into position... ${secondsLeft}` : `Hold still... ${secondsLeft}`}
+          </p>
+          <button onClick={onCancelCapture} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded">Cancel</button>
+        </div>
+      )}
+
+      {status === "review" && (
+        <>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="text-sm text-gray-300">Pose key
+              <input value={poseKey} onChange={e => setPoseKey(e.target.value)} className={`${inputClass} w-full mt-1 font-mono`} />
+            </label>
+            <label className="text-sm text-gray-300">Display name
+              <input value={displayName} onChange={e => setDisplayName(e.target.value)} className={`${inputClass} w-full mt-1`} />
+            </label>
+            <label className="text-sm text-gray-300 sm:col-span-2">Description
+              <textarea value={description} onChange={e => setDescription(e.target.value)} rows={2} className={`${inputClass} w-full mt-1`} />
+            </label>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-1 pr-2">Joint</th>
+                <th className="py-1 pr-2">Observed</th>
+                <th className="py-1 pr-2">Range</th>
+                <th className="py-1">Feedback (too small / too large)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(jointStats => {
+                const draft = joints[jointStats.jointName];
+                if (!draft) return null;
+                const [min, max] = draft.criterion.angle_range;
+                return (
+                  <tr key={jointStats.jointName} className={`border-b border-gray-800 align-top ${draft.selected ? '' : 'opacity-50'}`}>
+                    <td className="py-2 pr-2">
+                      <label className="flex items-center space-x-2 text-gray-100">
+                        <input
+                          type="checkbox"
+                          checked={draft.selected}
+                          onChange={e => setJoints(prev => ({ ...prev, [jointStats.jointName]: { ...draft, selected: e.target.checked } }))}
+                        />
+                        <span>{jointStats.jointName.replace(/_/g, ' ')}</span>
+                      </label>
+                    </td>
+                    <td className="py-2 pr-2 text-gray-300 whitespace-nowrap">
+                      {jointStats.sampleCount > 0
+                        ? `${Math.round(jointStats.mean)}° ± ${Math.round(jointStats.stdDev)}°`
+                        : 'Not seen'}
+                      <div className="text-xs text-gray-500">{Math.round(jointStats.visibleRatio * 100)}% visible</div>
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      <input type="number" value={min} className={`${inputClass} w-16`}
+                        onChange={e => updateCriterion(jointStats.jointName, c => ({ ...c, angle_range: [Number(e.target.value), c.angle_range[1]] }))} />
+                      <span className="mx-1 text-gray-400">–</span>
+                      <input type="number" value={max} className={`${inputClass} w-16`}
+                        onChange={e => updateCriterion(jointStats.jointName, c => ({ ...c, angle_range: [c.angle_range[0], Number(e.target.value)] }))} />
+                    </td>
+                    <td className="py-2 space-y-1">
+                      <input value={draft.criterion.feedback.below_min} className={`${inputClass} w-full`}
+                        onChange={e => updateCriterion(jointStats.jointName, c => ({ ...c, feedback: { ...c.feedback, below_min: e.target.value } }))} />
+                      <input value={draft.criterion.feedback.above_max} className={`${inputClass} w-full`}
+                        onChange={e => updateCriterion(jointStats.jointName, c => ({ ...c, feedback: { ...c.feedback, above_max: e.target.value } }))} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {snapshot && (
+            <div className="flex items-start space-x-3">
+              <img src={snapshot} alt="Captured pose" className="w-40 rounded border border-gray-700" />
+              <div className="space-y-2 text-sm">
+                <label className="flex items-center space-x-2 text-gray-300">
+                  <input type="checkbox" checked={includeSnapshot} onChange={e => setIncludeSnapshot(e.target.checked)} />
+                  <span>Use as image_path</span>
+                </label>
+                <a href={snapshot} download={`${poseKey}.jpg`} className="text-teal-300 underline">Download snapshot</a>
+              </div>
+            </div>
+          )}
+
+          {(issues.errors.length > 0 || issues.warnings.length > 0) && (
+            <ConfigIssueList errors={issues.errors} warnings={issues.warnings} />
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-sm text-gray-300">Paste into "poses" in exercise_config.json:</span>
+              <button onClick={handleCopy} className="bg-teal-600 hover:bg-teal-500 text-white text-sm py-1 px-3 rounded">
+                {copied ? 'Copied' : 'Copy JSON'}
+              </button>
+            </div>
+            <textarea readOnly value={snippet} rows={10} className="w-full font-mono text-xs bg-black text-gray-200 rounded p-2" />
+          </div>
+
+          <button onClick={onStartCapture} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded">Capture Again</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PoseAuthoringPanel;
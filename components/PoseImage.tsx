@@ -5,9 +5,10 @@ import { PLACEHOLDER_IMAGE_SVG } from '../constants';
 interface PoseImageProps {
   imagePath?: string;
   poseName: string;
+  mirrored?: boolean; // Flips the image, for poses generated by mirroring another
 }
 
-const PoseImage: React.FC<PoseImageProps> = ({ imagePath, poseName }) => {
+const PoseImage: React.FC<PoseImageProps> = ({ imagePath, poseName, mirrored = false }) => {
   const [imgSrc, setImgSrc] = useState(imagePath || PLACEHOLDER_IMAGE_SVG);
 
   React.useEffect(() => {
@@ -25,7 +26,7 @@ const PoseImage: React.FC<PoseImageProps> = ({ imagePath, poseName }) => {
         src={imgSrc}
         alt={`Pose: ${poseName}`}
         className="max-w-full max-h-[calc(100vh-200px)] object-contain rounded-md border-2 border-gray-700"
-        style={{ maxHeight: '70vh', maxWidth: '70vw' }}
+        style={{ maxHeight: '70vh', maxWidth: '70vw', transform: mirrored ? 'scaleX(-1)' : undefined }}
         onError={handleError}
       />
     </div>
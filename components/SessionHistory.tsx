@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { WorkoutSession } from '../types';
+import { loadSessions, clearSessions, getPoseTrends, PoseTrendPoint } from '../services/sessionHistory';
+import { formatScore, formatSeconds } from '../services/poseUtils';
+import { HISTORY_TREND_LENGTH, COLOR_PROGRESS_BAR_FG, DIFFICULTY_LEVELS } from '../constants';
+
+interface SessionHistoryProps {
+  onClose: () => void;
+}
+
+const SPARKLINE_WIDTH = 160;
+const SPARKLINE_HEIGHT = 32;
+
+// Lower correction time is better, so a falling line means improvement
+const Sparkline: React.FC<{ points: PoseTrendPoint[] }> = ({ points }) => {
+  if (points.length < 2) return <span className="text-xs text-gray-500">Not enough data</span>;
+  const values = points.map(point => point.correctionSeconds);
+  const max = Math.max(...values, 1);
+  const step = SPARKLINE_WIDTH / (values.length - 1);
+  const path = values
+    .map((value, index) => `${index === 0 ? 'M' : 'L'}${(index * step).toFixed(1)},${(SPARKLINE_HEIGHT - (value / max) * SPARKLINE_HEIGHT).toFixed(1)}`)
+    .join(' ');
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="overflow-visible">
+      <path d={path} fill="none" stroke={COLOR_PROGRESS_BAR_FG} strokeWidth={2} />
+    </svg>
+  );
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<WorkoutSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error("Failed to load session history:", err);
+        setError((err as Error).message);
+      });
+  }, []);
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete all saved workout history?")) return;
+    try {
+      await clearSessions();
+      setSessions([]);
+    } catch (err) {
+      console.error("Failed to clear session history:", err);
+      setError((err as Error).message);
+    }
+  };
+
+  const trends = sessions ? getPoseTrends(sessions, HISTORY_TREND_LENGTH) : [];
+
+  return (
+    <div className="w-full max-w-4xl bg-gray-900 bg-opacity-95 rounded-lg p-6 space-y-6 max-h-[85vh] overflow-y-auto shadow-2xl">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold text-teal-300">Workout History</h2>
+        <div className="space-x-2">
+          {sessions && sessions.length > 0 && (
+            <button onClick={handleClear} className="bg-red-600 hover:bg-red-700 text-white text-sm py-1 px-3 rounded">Clear</button>
+          )}
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded">Close</button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400">Could not load history: {error}</p>}
+      {!error && !sessions && <p className="text-gray-300">Loading history...</p>}
+      {sessions && sessions.length === 0 && <p className="text-gray-300">No workouts recorded yet. Finish a workout to see it here.</p>}
+
+      {trends.length > 0 && (
+        <div>
+          <h3 className="text-xl font-semibold text-gray-200 mb-2">Pose trends (correction time)</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {trends.map(trend => {
+              const latest = trend.points[trend.points.length - 1];
+              return (
+                <div key={trend.poseName} className="bg-gray-800 rounded p-3">
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-100">{trend.displayName}</span>
+                    <span className="text-gray-400">
+                      latest {formatSeconds(latest.correctionSeconds)}
+                      {latest.bestScore !== undefined && <>, best score {formatScore(latest.bestScore)}</>}
+                    </span>
+                  </div>
+                  <Sparkline points={trend.points} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {sessions && sessions.length > 0 && (
+        <div>
+          <h3 className="text-xl font-semibold text-gray-200 mb-2">Past sessions</h3>
+          <ul className="space-y-2">
+            {sessions.map(session => (
+              <li key={session.id} className="bg-gray-800 rounded p-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-100 font-medium">
+                    {session.workoutTitle}
+                    {session.difficulty && <span className="ml-2 text-gray-400 font-normal">{DIFFICULTY_LEVELS[session.difficulty].label}</span>}
+                  </span>
+                  <span className="text-gray-400">{new Date(session.startedAt).toLocaleString()}</span>
+                </div>
+                <div className="text-gray-400 mt-1">
+                  {session.poses.map(pose => `${pose.displayName} ${formatSeconds(pose.correctionSeconds)}`).join(' · ')}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { WorkoutSession } from '../types';
+import { getTopJointFailures } from '../services/sessionHistory';
+import { formatCriterionValue, formatScore, formatSeconds, scoreToColor } from '../services/poseUtils';
+import { DIFFICULTY_LEVELS } from '../constants';
+
+interface SessionSummaryProps {
+  session: WorkoutSession;
+}
+
+const SessionSummary: React.FC<SessionSummaryProps> = ({ session }) => {
+  const totalMinutes = (session.finishedAt - session.startedAt) / 60000;
+
+  return (
+    <div className="w-full max-w-3xl bg-black bg-opacity-60 rounded-lg p-4 space-y-4 max-h-[55vh] overflow-y-auto">
+      <div className="flex justify-between items-baseline">
+        <h2 className="text-2xl font-semibold text-teal-300">
+          {session.workoutTitle}
+          {session.difficulty && <span className="ml-2 text-base text-gray-400">{DIFFICULTY_LEVELS[session.difficulty].label}</span>}
+        </h2>
+        <span className="text-sm text-gray-400">{totalMinutes.toFixed(1)} min total</span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-700">
+            <th className="py-1 pr-2">Pose</th>
+            <th className="py-1 pr-2">First correct</th>
+            <th className="py-1 pr-2">Correction time</th>
+            <th className="py-1 pr-2">Score (best / avg)</th>
+            <th className="py-1">Most missed joints</th>
+          </tr>
+        </thead>
+        <tbody>
+          {session.poses.map((pose, index) => {
+            const topFailures = getTopJointFailures(pose);
+            return (
+              <tr key={index} className="border-b border-gray-800 align-top">
+                <td className="py-2 pr-2 text-gray-100">
+                  {pose.displayName}
+                  {pose.skipped && <span className="ml-2 text-xs text-yellow-300">Skipped</span>}
+                </td>
+                <td className="py-2 pr-2">{formatSeconds(pose.timeToFirstCorrectSeconds)}</td>
+                <td className="py-2 pr-2">{formatSeconds(pose.correctionSeconds)}</td>
+                <td className="py-2 pr-2">
+                  <span style={pose.bestScore !== undefined ? { color: scoreToColor(pose.bestScore) } : undefined}>{formatScore(pose.bestScore)}</span>
+                  {' / '}
+                  {formatScore(pose.averageScore)}
+                </td>
+                <td className="py-2">
+                  {topFailures.length === 0 && <span className="text-green-400">None</span>}
+                  {topFailures.map(failure => (
+                    <div key={failure.jointName} className="text-red-300">
+                      {failure.jointName.replace(/_/g, ' ')}: {Math.round(100 * failure.failedFrames / Math.max(pose.evaluatedFrames, 1))}% of frames, ~{formatCriterionValue(failure.averageAngle, failure.kind)}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SessionSummary;
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  digits?: number; // Decimals shown next to the label
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, digits = 1, onChange }) => (
+  <label className="block">
+    <span className="flex justify-between text-sm text-gray-300 mb-1">
+      <span>{label}</span>
+      <span className="text-gray-400">{value.toFixed(digits)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-teal-500"
+    />
+  </label>
+);
+
+export default Slider;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { SpeechSettings } from '../types';
+import { isSameLanguage } from '../services/localization';
+import Slider from './Slider';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  locales: string[]; // Locales the config has text for
+  voices: SpeechSynthesisVoice[];
+  activeVoice: SpeechSynthesisVoice | null; // The voice actually used for the chosen locale
+  onChange: (changes: Partial<SpeechSettings>) => void;
+  onReset: () => void;
+  onTest: () => void;
+  onClose: () => void;
+}
+
+const selectClass = "bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5";
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({
+  settings,
+  locales,
+  voices,
+  activeVoice,
+  onChange,
+  onReset,
+  onTest,
+  onClose,
+}) => {
+  const localeVoices = voices.filter(voice => isSameLanguage(voice.lang, settings.locale));
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 bg-opacity-95 rounded-lg p-6 space-y-4 shadow-2xl">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold text-teal-300">Voice &amp; Language</h2>
+        <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded">Close</button>
+      </div>
+
+      <div>
+        <label htmlFor="localeSelect" className="block text-sm font-medium text-gray-300 mb-1">Language</label>
+        <select
+          id="localeSelect"
+          value={settings.locale}
+          // The saved voice is kept; it is only used again once its language is chosen
+          onChange={(e) => onChange({ locale: e.target.value })}
+          className={selectClass}
+        >
+          {locales.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="voiceSelect" className="block text-sm font-medium text-gray-300 mb-1">Voice</label>
+        {localeVoices.length > 0 ? (
+          <select
+            id="voiceSelect"
+            value={activeVoice?.voiceURI ?? ''}
+            onChange={(e) => onChange({ voiceURI: e.target.value })}
+            className={selectClass}
+          >
+            {localeVoices.map(voice => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-sm text-yellow-300">
+            {voices.length > 0 ? `No voices for "${settings.locale}" are installed; the browser default will be used.` : 'Loading voices...'}
+          </p>
+        )}
+      </div>
+
+      <Slider label="Rate" value={settings.rate} min={0.5} max={2} step={0.1} onChange={rate => onChange({ rate })} />
+      <Slider label="Pitch" value={settings.pitch} min={0} max={2} step={0.1} onChange={pitch => onChange({ pitch })} />
+      <Slider label="Volume" value={settings.volume} min={0} max={1} step={0.1} onChange={volume => onChange({ volume })} />
+
+      <div className="flex justify-between">
+        <button onClick={onTest} className="bg-teal-600 hover:bg-teal-700 text-white font-medium py-2 px-4 rounded">Test Voice</button>
+        <button onClick={onReset} className="text-teal-300 hover:text-teal-100 underline text-sm">Reset to defaults</button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AngleDetail, PoseFrame, ParticipantProgress, FramingStatus } from '../types';
+import { ManualClock } from '../services/clock';
+import { getFrameGapMs } from '../services/landmarkTrace';
+import { drawAngleDetails, drawFramingTarget, drawLandmarkPoints, drawPersonBadges } from '../services/overlayDrawing';
+
+interface TraceFeedProps {
+  frames: PoseFrame[];
+  onLandmarks: (frame: PoseFrame) => void;
+  angleDetailsRef: React.RefObject<AngleDetail[]>; // Read when each frame is drawn, like in VideoFeed
+  participantsRef?: React.RefObject<ParticipantProgress[]>;
+  focusedPersonId?: number | null;
+  framingRef?: React.RefObject<FramingStatus | null>;
+  onPoseInitReady: () => void; // Called on mount, a trace needs no pose landmarker
+  paused?: boolean; // Playback stops at the current frame and carries on from there
+  clock?: ManualClock; // Moved on by the recorded time between frames, before each frame is delivered
+  debugMode?: boolean;
+}
+
+/**
+ * Plays back a recorded landmark trace in place of VideoFeed.
+ * Frames are delivered in order with their recorded timestamps and spacing.
+ */
+const TraceFeed: React.FC<TraceFeedProps> = ({
+  frames,
+  onLandmarks,
+  angleDetailsRef,
+  participantsRef,
+  focusedPersonId = null,
+  framingRef,
+  onPoseInitReady,
+  paused = false,
+  clock,
+  debugMode = false,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const nextFrameIndexRef = useRef(0);
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  const onLandmarksRef = useRef(onLandmarks);
+  const debugModeRef = useRef(debugMode);
+  const focusedPersonIdRef = useRef(focusedPersonId);
+  onLandmarksRef.current = onLandmarks;
+  debugModeRef.current = debugMode;
+  focusedPersonIdRef.current = focusedPersonId;
+
+  useEffect(() => {
+    onPoseInitReady();
+  }, [onPoseInitReady]);
+
+  useEffect(() => {
+    nextFrameIndexRef.current = 0;
+    setFrameIndex(0);
+  }, [frames]);
+
+  useEffect(() => {
+    if (paused) return;
+    let timeoutId: number | null = null;
+
+    const drawFrame = (frame: PoseFrame) => {
+      const canvas = canvasRef.current;
+      const canvasCtx = canvas?.getContext('2d');
+      if (!canvas || !canvasCtx) return;
+      canvas.width = frame.frameWidth;
+      canvas.height = frame.frameHeight;
+      canvasCtx.save();
+      canvasCtx.fillStyle = '#000000';
+      canvasCtx.fillRect(0, 0, canvas.width, canvas.height);
+      canvasCtx.translate(canvas.width, 0);
+      canvasCtx.scale(-1, 1);
+      if (frame.landmarks) {
+        if (debugModeRef.current) {
+          drawLandmarkPoints(canvasCtx, frame.landmarks, frame.frameWidth, frame.frameHeight);
+        } else {
+          drawAngleDetails(canvasCtx, angleDetailsRef.current ?? []);
+        }
+      }
+      canvasCtx.restore();
+      const framing = framingRef?.current;
+      if (framing) drawFramingTarget(canvasCtx, framing, frame.frameWidth, frame.frameHeight);
+      const people = frame.people ?? [];
+      const participants = participantsRef?.current ?? [];
+      if (people.length > 1 || participants.length > 0) {
+        drawPersonBadges(canvasCtx, people, participants, focusedPersonIdRef.current, frame.frameWidth, frame.frameHeight);
+      }
+    };
+
+    const playNextFrame = () => {
+      const index = nextFrameIndexRef.current;
+      if (index >= frames.length) return;
+      const frame = frames[index];
+      clock?.advance(getFrameGapMs(frames, index));
+      onLandmarksRef.current(frame);
+      drawFrame(frame);
+      nextFrameIndexRef.current = index + 1;
+      setFrameIndex(index + 1);
+      if (index + 1 < frames.length) {
+        timeoutId = window.setTimeout(playNextFrame, getFrameGapMs(frames, index + 1));
+      }
+    };
+
+    playNextFrame();
+    return () => {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    };
+  }, [frames, paused, clock]);
+
+  return (
+    <div className="relative w-full h-full video-feed-container">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+      <div className="absolute top-4 left-4 z-20 text-xs text-gray-300 bg-black bg-opacity-60 rounded px-2 py-1">
+        Trace frame {frameIndex} / {frames.length}{frameIndex >= frames.length ? ' (ended)' : ''}
+      </div>
+    </div>
+  );
+};
+
+export default TraceFeed;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { TrackingMode } from '../types';
+
+interface TrackingModePickerProps {
+  mode: TrackingMode;
+  onSelect: (mode: TrackingMode) => void;
+}
+
+const MODES: { value: TrackingMode; label: string }[] = [
+  { value: "single", label: "Just Me" },
+  { value: "group", label: "Partner / Class" },
+];
+
+const TrackingModePicker: React.FC<TrackingModePickerProps> = ({ mode, onSelect }) => (
+  <div className="flex items-center space-x-3">
+    <span className="text-lg font-medium text-gray-300">Coach:</span>
+    <div className="flex rounded-lg overflow-hidden border border-gray-600">
+      {MODES.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onSelect(option.value)}
+          className={`py-2 px-4 text-sm font-medium transition-colors ${option.value === mode ? 'bg-teal-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default TrackingModePicker;
@@ -1,247 +1,317 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
-import { AngleDetail, PoseLandmarks, NormalizedLandmarkList } from '../types'; // PoseLandmarks is NormalizedLandmarkList | null
-import { DEFAULT_CAMERA_WIDTH, DEFAULT_CAMERA_HEIGHT, COLOR_LANDMARK } from '../constants';
-
-// Define a more specific type for PoseLandmarkerResult if needed, or use 'any'
-// For now, structure from documentation: { landmarks: NormalizedLandmarkList[] }
-interface PoseLandmarkerResult {
-  landmarks: NormalizedLandmarkList[]; // Array of poses, each pose is a NormalizedLandmarkList
-  worldLandmarks?: any; // Optional
-  segmentationMasks?: any; // Optional
-}
+import { AngleDetail, PoseFrame, InputSource, EngineSettings, EngineStatus, TrackedPerson, ParticipantProgress, FramingStatus } from '../types';
+import { DrawingUtils, PoseLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { DEFAULT_CAMERA_WIDTH, DEFAULT_CAMERA_HEIGHT, COLOR_LANDMARK, POSE_MODEL_PATHS } from '../constants';
+import { drawAngleDetails, drawFramingTarget, drawPersonBadges } from '../services/overlayDrawing';
+import { INITIAL_PERSON_TRACKER, advancePersonTracker, choosePerson } from '../services/personTracker';
+import { INITIAL_FRAME_PACER, markFrameSent, recordInferenceLatency, shouldSendFrame } from '../services/framePacer';
+import type { PoseWorkerRequest, PoseWorkerResponse } from '../services/poseWorker';
 
-// Extend Window interface to include mpVision and its components
-declare global {
-  interface Window {
-    mpVision?: { // Optional to handle loading states
-      PoseLandmarker: {
-        createFromOptions: (filesetResolver: any, options: any) => Promise<any>; // Returns a PoseLandmarker instance
-        POSE_CONNECTIONS: Array<[number, number]>;
-        PoseLandmark: { [key: string]: number }; // For landmark name to index mapping
-      };
-      FilesetResolver: {
-        forVisionTasks: (path: string) => Promise<any>;
-      };
-      DrawingUtils: new (context: CanvasRenderingContext2D) => {
-        drawLandmarks: (landmarks: NormalizedLandmarkList, options?: any) => void;
-        drawConnectors: (landmarks: NormalizedLandmarkList, connections: Array<[number, number]>, options?: any) => void;
-      };
-    };
-  }
-}
+type FrameResponse = Extract<PoseWorkerResponse, { type: "result" | "frame_error" }>;
 
 interface VideoFeedProps {
-  onLandmarks: (landmarks: PoseLandmarks, frameWidth: number, frameHeight: number) => void;
-  angleDetailsToDraw: AngleDetail[];
+  inputSource: Exclude<InputSource, { kind: "trace" }>; // Traces are played back by TraceFeed
+  onLandmarks: (frame: PoseFrame) => void;
+  angleDetailsRef: React.RefObject<AngleDetail[]>; // Read on every drawn frame, so the overlay doesn't wait for React
+  participantsRef?: React.RefObject<ParticipantProgress[]>; // Hold bars drawn above each person in group mode
+  focusedPersonId?: number | null; // The locked person, whose label is highlighted
+  framingRef?: React.RefObject<FramingStatus | null>; // Set during the framing check, which shows where to stand
   onCameraError: () => void;
+  onVideoFileError: (message: string) => void;
   onPoseInitReady: () => void; // Callback when pose landmarker is ready
   onPoseInitError: () => void; // Callback if pose landmarker fails to initialize
+  engineSettings: EngineSettings; // Changing them restarts the pose landmarker
+  onEngineStatus?: (status: EngineStatus | null) => void; // The backend in use, null while none is running
+  onVideoElement?: (video: HTMLVideoElement | null) => void; // Exposes the playing element, e.g. for playback controls
   debugMode?: boolean;
-  videoDeviceId?: string;
 }
 
-const VideoFeed: React.FC<VideoFeedProps> = ({ 
-  onLandmarks, 
-  angleDetailsToDraw, 
+const VideoFeed: React.FC<VideoFeedProps> = ({
+  inputSource,
+  onLandmarks,
+  angleDetailsRef,
+  participantsRef,
+  focusedPersonId = null,
+  framingRef,
   onCameraError,
+  onVideoFileError,
   onPoseInitReady,
   onPoseInitError,
+  engineSettings,
+  onEngineStatus,
+  onVideoElement,
   debugMode = false,
-  videoDeviceId
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const poseLandmarkerRef = useRef<any | null>(null); // Stores the PoseLandmarker instance
+  const workerRef = useRef<Worker | null>(null);
+  // Worker results for the current video loop; set by the loop since it owns the in-flight frame
+  const frameResponseHandlerRef = useRef<(response: FrameResponse) => void>(() => {});
+  const latestLandmarksRef = useRef<NormalizedLandmark[][]>([]); // Poses of the latest result, redrawn every frame
+  const latestPeopleRef = useRef<TrackedPerson[]>([]);
   const animationFrameIdRef = useRef<number | null>(null);
-  const [isCameraSetup, setIsCameraSetup] = useState(false);
+  const [isPoseReady, setIsPoseReady] = useState(false);
+  const [isInputSetup, setIsInputSetup] = useState(false);
+
+  // Per-frame props are read through refs so that new callbacks don't restart the video loop
+  const onLandmarksRef = useRef(onLandmarks);
+  const debugModeRef = useRef(debugMode);
+  const focusedPersonIdRef = useRef(focusedPersonId);
+  onLandmarksRef.current = onLandmarks;
+  debugModeRef.current = debugMode;
+  focusedPersonIdRef.current = focusedPersonId;
+
+  const waitForMetadata = (videoElement: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+    videoElement.onloadedmetadata = () => resolve();
+    videoElement.onerror = () => reject(videoElement.error);
+  });
+
+  const setupInput = useCallback(async (videoElement: HTMLVideoElement): Promise<boolean> => {
+    if (inputSource.kind === "file") {
+      try {
+        videoElement.srcObject = null;
+        videoElement.src = URL.createObjectURL(inputSource.file);
+        const metadataLoaded = waitForMetadata(videoElement);
+        videoElement.load();
+        await metadataLoaded;
+        setIsInputSetup(true);
+        return true;
+      } catch (error) {
+        console.error("Error loading video file:", error);
+        onVideoFileError(`Could not play "${inputSource.file.name}". Please choose a video format your browser supports.`);
+        setIsInputSetup(false);
+        return false;
+      }
+    }
 
-  const setupCamera = useCallback(async () => {
-    if (!videoRef.current) return null;
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
           width: DEFAULT_CAMERA_WIDTH,
           height: DEFAULT_CAMERA_HEIGHT,
-          deviceId: videoDeviceId ? { exact: videoDeviceId } : undefined,
+          deviceId: inputSource.deviceId ? { exact: inputSource.deviceId } : undefined,
         },
       });
-      videoRef.current.srcObject = stream;
-      return new Promise<HTMLVideoElement>((resolve) => {
-        videoRef.current!.onloadedmetadata = () => {
-          setIsCameraSetup(true);
-          resolve(videoRef.current!);
-        }
-      });
+      videoElement.removeAttribute('src');
+      const metadataLoaded = waitForMetadata(videoElement);
+      videoElement.srcObject = stream;
+      await metadataLoaded;
+      setIsInputSetup(true);
+      return true;
     } catch (error) {
       console.error("Error accessing camera:", error);
       onCameraError();
-      setIsCameraSetup(false);
-      return null;
+      setIsInputSetup(false);
+      return false;
     }
-  }, [onCameraError, videoDeviceId]);
+  }, [inputSource, onCameraError, onVideoFileError]);
 
-  const handlePoseLandmarkerResults = useCallback((results: PoseLandmarkerResult): void => {
-    if (!canvasRef.current || !videoRef.current || !window.mpVision) return;
+  // Draws the video with the overlay of the latest result; runs on every animation frame, not just when landmarks arrive
+  const drawFrame = useCallback((videoElement: HTMLVideoElement): void => {
+    const canvas = canvasRef.current;
+    const canvasCtx = canvas?.getContext('2d');
+    if (!canvas || !canvasCtx) return;
 
-    const canvasCtx = canvasRef.current.getContext('2d');
-    if (!canvasCtx) return;
-
-    const videoElement = videoRef.current;
-    canvasRef.current.width = videoElement.videoWidth;
-    canvasRef.current.height = videoElement.videoHeight;
+    canvas.width = videoElement.videoWidth;
+    canvas.height = videoElement.videoHeight;
 
     canvasCtx.save();
-    canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    canvasCtx.translate(canvasRef.current.width, 0);
+    canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
+    canvasCtx.translate(canvas.width, 0);
     canvasCtx.scale(-1, 1);
-    canvasCtx.drawImage(videoElement, 0, 0, canvasRef.current.width, canvasRef.current.height);
-    
-    // Pass the landmarks of the first detected pose, or null if no poses.
-    const firstPoseLandmarks: PoseLandmarks = results.landmarks && results.landmarks.length > 0 ? results.landmarks[0] : null;
-    onLandmarks(firstPoseLandmarks, canvasRef.current.width, canvasRef.current.height);
-
-    if (firstPoseLandmarks && window.mpVision?.DrawingUtils && window.mpVision?.PoseLandmarker?.POSE_CONNECTIONS) {
-      const drawingUtils = new window.mpVision.DrawingUtils(canvasCtx);
-      if (debugMode) {
-        // Draw all landmarks and connections for the first detected pose
-         for (const landmarkSet of results.landmarks) { // Iterate if multiple poses detected by model (though we set numPoses=1)
-            drawingUtils.drawLandmarks(landmarkSet, { color: COLOR_LANDMARK, lineWidth: 1, radius: 3 });
-            drawingUtils.drawConnectors(landmarkSet, window.mpVision.PoseLandmarker.POSE_CONNECTIONS, { color: '#00FF00', lineWidth: 2 });
+    canvasCtx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+
+    const poses = latestLandmarksRef.current;
+    if (poses.length > 0) {
+      if (debugModeRef.current) {
+        const drawingUtils = new DrawingUtils(canvasCtx);
+        // Draw all landmarks and connections of every detected pose
+        for (const landmarkSet of poses) {
+          drawingUtils.drawLandmarks(landmarkSet, { color: COLOR_LANDMARK, lineWidth: 1, radius: 3 });
+          drawingUtils.drawConnectors(landmarkSet, PoseLandmarker.POSE_CONNECTIONS, { color: '#00FF00', lineWidth: 2 });
         }
       } else {
-         // Draw specific angle lines based on angleDetailsToDraw (derived from the first pose)
-         angleDetailsToDraw.forEach(detail => {
-          if (detail.angle > -1) { 
-            canvasCtx.beginPath();
-            canvasCtx.moveTo(detail.p1.x, detail.p1.y);
-            canvasCtx.lineTo(detail.p2.x, detail.p2.y);
-            canvasCtx.lineTo(detail.p3.x, detail.p3.y);
-            canvasCtx.strokeStyle = detail.color;
-            canvasCtx.lineWidth = 3;
-            canvasCtx.stroke();
-            
-            canvasCtx.beginPath();
-            canvasCtx.arc(detail.p2.x, detail.p2.y, 6, 0, 2 * Math.PI);
-            canvasCtx.fillStyle = detail.color;
-            canvasCtx.fill();
-          }
-        });
+        // Draw specific angle lines based on the angle details (of everyone being coached)
+        drawAngleDetails(canvasCtx, angleDetailsRef.current ?? []);
       }
     }
     canvasCtx.restore();
-  }, [onLandmarks, angleDetailsToDraw, debugMode]);
+
+    const framing = framingRef?.current;
+    if (framing) drawFramingTarget(canvasCtx, framing, canvas.width, canvas.height);
+    // Ids are only needed to tell people apart
+    const people = latestPeopleRef.current;
+    const participants = participantsRef?.current ?? [];
+    if (people.length > 1 || participants.length > 0) {
+      drawPersonBadges(canvasCtx, people, participants, focusedPersonIdRef.current, canvas.width, canvas.height);
+    }
+  }, [angleDetailsRef, participantsRef, framingRef]);
 
 
+  // Start the inference worker; switching the input source doesn't reload the model, changing the engine settings does
   useEffect(() => {
     let isMounted = true;
-    const initializeAndStart = async () => {
-      if (!isMounted || !window.mpVision || poseLandmarkerRef.current) return;
+    const worker = new Worker(new URL('../services/poseWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
 
-      try {
-        const vision = await window.mpVision.FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-        );
-        
-        // **IMPORTANT**: User must place pose_landmarker_lite.task (or other model) 
-        // in the public/models/ directory.
-        poseLandmarkerRef.current = await window.mpVision.PoseLandmarker.createFromOptions(
-          vision,
-          {
-            baseOptions: {
-              modelAssetPath: `/models/pose_landmarker_lite.task`,
-              delegate: "GPU" // or "CPU"
-            },
-            runningMode: "VIDEO",
-            numPoses: 1, // Max poses to detect
-            minPoseDetectionConfidence: 0.5,
-            minPosePresenceConfidence: 0.5,
-            minTrackingConfidence: 0.5,
-            outputSegmentationMasks: false
-          }
-        );
-        if (!isMounted) return;
-        console.log("Pose Landmarker initialized.");
+    worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+      if (!isMounted) return;
+      const response = event.data;
+      if (response.type === "ready") {
+        console.log(`Pose Landmarker initialized (${response.status.model}, ${response.status.delegate}).`);
+        onEngineStatus?.(response.status);
+        setIsPoseReady(true);
         onPoseInitReady(); // Signal that pose landmarker is ready
+      } else if (response.type === "init_error") {
+        console.error("Failed to initialize Pose Landmarker:", response.message);
+        onPoseInitError();
+      } else {
+        frameResponseHandlerRef.current(response);
+      }
+    };
+    worker.onerror = (event) => {
+      console.error("Pose worker failed:", event.message);
+      if (isMounted) onPoseInitError();
+    };
 
-        // Now setup camera if pose landmarker is ready
-        const videoElement = await setupCamera();
-        if (videoElement && poseLandmarkerRef.current && isMounted) {
-            requestVideoFrame(videoElement);
-        } else if (!videoElement && isMounted) {
-            onCameraError(); // Camera setup failed after pose init
-        }
+    // **IMPORTANT**: The model file must be in the public/models/ directory, see scripts/fetch-model.js
+    const init: PoseWorkerRequest = {
+      type: "init",
+      settings: engineSettings,
+      // Resolved against the page rather than the worker script
+      modelAssetPath: new URL(POSE_MODEL_PATHS[engineSettings.model], window.location.href).href,
+    };
+    worker.postMessage(init);
 
-      } catch (error) {
-        console.error("Failed to initialize Pose Landmarker:", error);
-        if (isMounted) onPoseInitError();
+    return () => {
+      isMounted = false;
+      worker.terminate();
+      workerRef.current = null;
+      setIsPoseReady(false);
+      onEngineStatus?.(null);
+    };
+  }, [engineSettings, onPoseInitReady, onPoseInitError, onEngineStatus]);
+
+
+  // Set up the camera or video file, draw every animation frame and send frames to the worker as it keeps up
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    const worker = workerRef.current;
+    if (!isPoseReady || !videoElement || !worker) return;
+    let isActive = true;
+    let lastVideoTime = -1;
+    let pacer = INITIAL_FRAME_PACER;
+    let tracker = INITIAL_PERSON_TRACKER;
+    let nextFrameId = 0;
+    // Only one frame is in flight; video frames arriving meanwhile are skipped
+    let inFlight: { frameId: number; sentAtMs: number; timestampMs: number } | null = null;
+
+    frameResponseHandlerRef.current = (response) => {
+      if (!isActive || !inFlight || response.frameId !== inFlight.frameId) return;
+      const frame = inFlight;
+      inFlight = null;
+      pacer = recordInferenceLatency(pacer, performance.now() - frame.sentAtMs);
+      if (response.type === "frame_error") {
+        console.error("Error during detectForVideo:", response.message);
+        return;
       }
+      latestLandmarksRef.current = response.landmarks;
+      const tracked = advancePersonTracker(tracker, response.landmarks, response.worldLandmarks, frame.timestampMs);
+      tracker = tracked.state;
+      latestPeopleRef.current = tracked.people;
+      // The largest person is coached unless the app locks onto someone, see focusOnPerson
+      const person = choosePerson(tracked.people, null);
+      onLandmarksRef.current({
+        landmarks: person?.landmarks ?? null,
+        worldLandmarks: person?.worldLandmarks ?? null,
+        people: tracked.people,
+        frameWidth: videoElement.videoWidth,
+        frameHeight: videoElement.videoHeight,
+        timestampMs: frame.timestampMs,
+      });
     };
-    
-    // Wait for mpVision to be available (CDN load)
-    const checkMpVisionInterval = setInterval(() => {
-        if (window.mpVision) {
-            clearInterval(checkMpVisionInterval);
-            initializeAndStart();
+
+    const sendFrame = (nowInMs: number) => {
+      const frame = {
+        frameId: nextFrameId++,
+        sentAtMs: nowInMs,
+        timestampMs: inputSource.kind === "file" ? videoElement.currentTime * 1000 : nowInMs,
+      };
+      inFlight = frame;
+      pacer = markFrameSent(pacer, nowInMs);
+      createImageBitmap(videoElement).then(bitmap => {
+        if (!isActive) {
+          bitmap.close();
+          return;
         }
-    }, 100);
-    setTimeout(() => { // Timeout for waiting for mpVision
-        clearInterval(checkMpVisionInterval);
-        if(!window.mpVision && isMounted) {
-            console.error("MediaPipe tasks-vision (mpVision) not loaded from CDN after timeout.");
-            onPoseInitError();
+        // MediaPipe needs monotonically increasing timestamps, even after seeking
+        const request: PoseWorkerRequest = { type: "frame", frameId: frame.frameId, bitmap, timestampMs: nowInMs };
+        worker.postMessage(request, [bitmap]);
+      }).catch(error => {
+        console.error("Error capturing video frame:", error);
+        if (inFlight === frame) inFlight = null;
+      });
+    };
+
+    const processVideo = () => {
+      if (!isActive) return;
+      if (videoElement.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        const nowInMs = performance.now();
+        // Paused files keep the loop alive, but a frame is only processed once
+        if (!inFlight && videoElement.currentTime !== lastVideoTime && shouldSendFrame(pacer, nowInMs)) {
+          lastVideoTime = videoElement.currentTime;
+          sendFrame(nowInMs);
         }
-    }, 5000);
-
-
-    const requestVideoFrame = (videoElement: HTMLVideoElement) => {
-        const processVideo = async () => {
-            if (!isMounted || !poseLandmarkerRef.current || videoElement.paused || videoElement.ended) {
-                if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
-                return;
-            }
-            if (videoElement.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
-                const nowInMs = performance.now(); // Use performance.now for more accurate timing
-                try {
-                    const results = poseLandmarkerRef.current.detectForVideo(videoElement, nowInMs);
-                    if (results) {
-                        handlePoseLandmarkerResults(results);
-                    }
-                } catch (e) {
-                    console.error("Error during detectForVideo:", e);
-                     // Potentially stop or signal error
-                }
-            }
-            animationFrameIdRef.current = requestAnimationFrame(processVideo);
-        };
-        animationFrameIdRef.current = requestAnimationFrame(processVideo);
+        drawFrame(videoElement);
+      }
+      animationFrameIdRef.current = requestAnimationFrame(processVideo);
     };
 
+    setupInput(videoElement).then(isReady => {
+      if (!isReady || !isActive) return;
+      onVideoElement?.(videoElement);
+      if (inputSource.kind === "camera") {
+        videoElement.play().catch(err => console.error("Error starting camera playback:", err));
+      }
+      animationFrameIdRef.current = requestAnimationFrame(processVideo);
+    });
+
     return () => {
-      isMounted = false;
+      isActive = false;
+      frameResponseHandlerRef.current = () => {};
+      latestLandmarksRef.current = [];
+      latestPeopleRef.current = [];
       if (animationFrameIdRef.current) {
         cancelAnimationFrame(animationFrameIdRef.current);
+        animationFrameIdRef.current = null;
       }
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
+      if (videoElement.srcObject) {
+        const stream = videoElement.srcObject as MediaStream;
         stream.getTracks().forEach(track => track.stop());
-        videoRef.current.srcObject = null;
+        videoElement.srcObject = null;
       }
-      if (poseLandmarkerRef.current) {
-        poseLandmarkerRef.current.close().catch((err: any) => console.error("Error closing pose landmarker:", err));
-        poseLandmarkerRef.current = null;
+      if (videoElement.src) {
+        videoElement.pause();
+        URL.revokeObjectURL(videoElement.src);
+        videoElement.removeAttribute('src');
+        videoElement.load();
       }
-      setIsCameraSetup(false);
-      clearInterval(checkMpVisionInterval); // Clear interval on unmount
+      onVideoElement?.(null);
+      setIsInputSetup(false);
     };
-  }, [setupCamera, handlePoseLandmarkerResults, onPoseInitReady, onPoseInitError, onCameraError]); 
+  }, [isPoseReady, inputSource, setupInput, drawFrame, onVideoElement]);
 
   return (
     <div className="relative w-full h-full video-feed-container">
-      <video ref={videoRef} className="hidden" autoPlay playsInline muted width={DEFAULT_CAMERA_WIDTH} height={DEFAULT_CAMERA_HEIGHT}></video>
+      <video ref={videoRef} className="hidden" playsInline muted width={DEFAULT_CAMERA_WIDTH} height={DEFAULT_CAMERA_HEIGHT}></video>
       <canvas ref={canvasRef} className="w-full h-full"></canvas>
-      {!isCameraSetup && <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 text-white"><p>Initializing camera...</p></div>}
+      {!isInputSetup && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 text-white">
+          <p>{inputSource.kind === "file" ? 'Loading video...' : 'Initializing camera...'}</p>
+        </div>
+      )}
     </div>
   );
 };
 
-export default VideoFeed;
\ No newline at end of file
+export default VideoFeed;
@@ -0,0 +1,57 @@
+import React, { useEffect } from 'react';
+import { WORKOUT_SHORTCUTS } from '../constants';
+
+interface WorkoutControlsProps {
+  isPaused: boolean;
+  canGoBack: boolean;
+  onTogglePause: () => void;
+  onSkip: () => void;
+  onPrevious: () => void;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
+const buttonClass = "bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-white py-2 px-4 rounded-lg";
+
+// On-screen buttons plus keyboard shortcuts, which stay active while the controls are shown
+const WorkoutControls: React.FC<WorkoutControlsProps> = ({ isPaused, canGoBack, onTogglePause, onSkip, onPrevious }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      let action: (() => void) | null = null;
+      if (WORKOUT_SHORTCUTS.togglePause.includes(e.key)) action = onTogglePause;
+      else if (WORKOUT_SHORTCUTS.skip.includes(e.key)) action = onSkip;
+      else if (WORKOUT_SHORTCUTS.previous.includes(e.key) && canGoBack) action = onPrevious;
+      if (action) {
+        e.preventDefault(); // Space would otherwise also press the focused button
+        action();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canGoBack, onTogglePause, onSkip, onPrevious]);
+
+  return (
+    <>
+      {isPaused && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-black bg-opacity-60 pointer-events-none">
+          <p className="text-6xl font-bold text-white">Paused</p>
+        </div>
+      )}
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-2 p-2 bg-black bg-opacity-70 rounded-lg shadow-xl">
+        <button onClick={onPrevious} disabled={!canGoBack} className={buttonClass} title="Previous pose (←, Page Up)">
+          ⏮ Previous
+        </button>
+        <button onClick={onTogglePause} className={`${buttonClass} w-28`} title="Pause or resume (Space, P)">
+          {isPaused ? '▶ Resume' : '⏸ Pause'}
+        </button>
+        <button onClick={onSkip} className={buttonClass} title="Skip pose (→, Page Down)">
+          Skip ⏭
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default WorkoutControls;
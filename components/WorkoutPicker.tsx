@@ -0,0 +1,49 @@
+import React from 'react';
+import { Difficulty, ExerciseConfig, Workout } from '../types';
+import { getWorkoutDurationMinutes, getEntryPoseName, getEntrySets } from '../services/workouts';
+import { localize } from '../services/localization';
+
+interface WorkoutPickerProps {
+  config: ExerciseConfig;
+  workouts: Workout[];
+  selectedWorkoutId?: string;
+  difficulty: Difficulty; // Scales the estimated durations
+  locale: string;
+  onSelect: (workoutId: string) => void;
+}
+
+const WorkoutPicker: React.FC<WorkoutPickerProps> = ({ config, workouts, selectedWorkoutId, difficulty, locale, onSelect }) => {
+  return (
+    <div className="w-full max-w-3xl grid gap-3 sm:grid-cols-2 max-h-[40vh] overflow-y-auto p-1">
+      {workouts.map(workout => {
+        const isSelected = workout.id === selectedWorkoutId;
+        const poseNames = workout.sequence.flatMap(entry => {
+          const poseName = getEntryPoseName(entry);
+          if (!poseName) return [];
+          const displayName = localize(config.poses[poseName]?.display_name, locale) || poseName.replace(/_/g, ' ');
+          const sets = getEntrySets(entry);
+          return [sets > 1 ? `${displayName} ×${sets}` : displayName];
+        });
+        return (
+          <button
+            key={workout.id}
+            onClick={() => onSelect(workout.id)}
+            className={`text-left p-4 rounded-lg border-2 transition-colors ${isSelected ? 'border-teal-400 bg-teal-900 bg-opacity-60' : 'border-gray-600 bg-gray-800 bg-opacity-70 hover:border-gray-400'}`}
+          >
+            <div className="flex items-baseline justify-between">
+              <h3 className="text-xl font-semibold text-teal-300">{workout.title}</h3>
+              <span className="text-sm text-gray-400 whitespace-nowrap ml-2">~{getWorkoutDurationMinutes(workout, config, difficulty)} min</span>
+            </div>
+            {workout.description && <p className="text-sm text-gray-200 mt-1">{workout.description}</p>}
+            <p className="text-xs text-gray-400 mt-2">
+              {poseNames.join(' · ')}
+              {(workout.rounds ?? 1) > 1 && <span className="text-gray-300"> — {workout.rounds} rounds</span>}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WorkoutPicker;
@@ -1,25 +1,132 @@
+import type { Difficulty, DifficultyLevel, EngineSettings, PoseModelVariant, SmoothingSettings, SpeechSettings } from './types';
 
 export const DESCRIPTION_DISPLAY_TIME = 5; // seconds
 export const IMAGE_DISPLAY_TIME = 5;       // seconds
-export const POSE_HOLD_SECONDS = 4;        // seconds
+export const REST_COUNTDOWN_SECONDS = 3;   // The last seconds of a rest are counted down aloud
+export const DEFAULT_HOLD_SECONDS = 4;     // seconds, for poses without hold_seconds
+export const HOLD_GRACE_SECONDS = 0.5;     // seconds a hold survives the pose being lost
+export const DEFAULT_TARGET_REPS = 10;
+export const ESTIMATED_SECONDS_PER_REP = 3; // Used to estimate workout duration
+export const REP_LEAVE_START_FRAMES = 5;    // Frames in a row outside the start position before it counts as left, so jitter isn't a half rep
 
 // Colors (hex for web)
 export const COLOR_CORRECT = "#00FF00";     // Green
 export const COLOR_INCORRECT = "#FF0000";   // Red
+// Criterion scores fall from 100 at the edge of the range to 0 this far outside it
+export const SCORE_FALLOFF_DEGREES = 30;
+export const SCORE_FALLOFF_BODY_LENGTHS = 0.3;
 export const COLOR_LANDMARK = "#E6E6E6";    // Light Gray (used by MediaPipe default drawing)
 export const COLOR_TEXT = "#FFFFFF";        // White
 export const COLOR_TEXT_BG = "#000000";     // Black (for text background)
 export const COLOR_PROGRESS_BAR_BG = "#646464";
 export const COLOR_PROGRESS_BAR_FG = "#00C800";
 
-export const EASY_MODE_TOLERANCE = 20; // Degrees tolerance
+export const REFERENCE_AXIS_DRAW_LENGTH = 80; // Pixels drawn along a VERTICAL/HORIZONTAL joint endpoint
+
+export const DEFAULT_TOLERANCE = 20; // Degrees, for poses without a tolerance
+export const DEFAULT_POSITION_TOLERANCE = 0.05; // Body lengths, for poses without a position_tolerance
+
+export const DIFFICULTY_LEVELS: Record<Difficulty, DifficultyLevel> = {
+  beginner: { label: "Beginner", toleranceScale: 1.5, holdScale: 0.75 },
+  intermediate: { label: "Intermediate", toleranceScale: 1, holdScale: 1 },
+  advanced: { label: "Advanced", toleranceScale: 0.5, holdScale: 1.5 },
+};
+export const DEFAULT_DIFFICULTY: Difficulty = "intermediate";
+
+export const DEFAULT_SMOOTHING: SmoothingSettings = { filter: "one_euro", min_cutoff: 1.5, beta: 5, d_cutoff: 1 };
 
 export const DEFAULT_CAMERA_WIDTH = 1280;
 export const DEFAULT_CAMERA_HEIGHT = 720;
 
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+export const MAX_FRAME_GAP_MS = 1000; // Larger timestamp jumps (e.g. seeking) restart the hold
+
+// Pose inference, run in a worker (see services/poseWorker.ts)
+// Downloaded by scripts/fetch-model.js; only lite is fetched on install
+export const POSE_MODEL_PATHS: Record<PoseModelVariant, string> = {
+  lite: "/models/pose_landmarker_lite.task",
+  full: "/models/pose_landmarker_full.task",
+  heavy: "/models/pose_landmarker_heavy.task",
+};
+export const ENGINE_SETTINGS_STORAGE_KEY = 'ai-exercise-coach.engine-settings';
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  model: "lite",
+  delegate: "GPU",
+  numPoses: 2, // Enough to tell the user apart from someone walking past
+  minPoseDetectionConfidence: 0.5,
+  minPosePresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+export const INFERENCE_LATENCY_SMOOTHING = 0.2; // Weight of the newest latency in the running average
+export const INFERENCE_BUSY_FRACTION = 0.75;    // Frames are sent so the worker is busy at most this share of the time
+export const MAX_FRAME_INTERVAL_MS = 250;       // Frame skipping never drops tracking below 4 frames per second
+export const UI_UPDATE_INTERVAL_MS = 100;       // Feedback text and gauges re-render at most this often; the overlay is drawn every frame
+
+// Framing check before each pose, see services/framing.ts
+export const FRAMING_MARGIN = 0.03;            // Share of the frame kept clear around the landmarks a pose needs
+export const FRAMING_MIN_TORSO_HEIGHT = 0.1;   // Share of the frame height; a smaller torso is too far away to measure well
+export const FRAMING_FACING_RATIO = 0.5;       // Shoulder width over torso height above which the user faces the camera (or away)
+export const ORIENTATION_SIDE_RATIO = 0.3;     // Shoulder width over torso height below which the user stands side-on
+export const FRAMING_HOLD_SECONDS = 1;         // Time the user must stay framed before the pose is checked
+
+// Multi-person tracking, see services/personTracker.ts
+export const MAX_TRACKED_PEOPLE = 6;
+export const PERSON_MATCH_MAX_DISTANCE = 0.2;   // Frame widths a person may move between frames and keep their id
+export const PERSON_TRACK_TIMEOUT_MS = 1500;    // A person out of view this long gets a new id on return
+export const PERSON_BADGE_BAR_WIDTH = 80;       // Pixels, of the hold bar drawn above each person in group mode
+
 export const TTS_DELAY = 0.5; // seconds delay after each TTS utterance
 export const TTS_RATE = 1.2; // Speech rate (0.1 to 10, default 1)
 
+export const DEFAULT_LOCALE = 'en'; // Used when a text has no translation for the chosen locale
+export const SPEECH_SETTINGS_STORAGE_KEY = 'ai-exercise-coach.speech-settings';
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  locale: DEFAULT_LOCALE,
+  voiceURI: null,
+  rate: TTS_RATE,
+  pitch: 1,
+  volume: 1,
+};
+
+// Spoken corrections
+export const CUE_MIN_GAP_SECONDS = 3;           // Between any two corrections
+export const CUE_PERSIST_SECONDS = 1;           // A correction must stay wrong this long before it is spoken
+export const CUE_COOLDOWN_SECONDS = 8;          // Before the same correction is spoken again
+export const CUE_REPEAT_COOLDOWN_SECONDS = 15;  // Before a correction is repeated with nothing else said in between
+
+// Workout controls, matched against KeyboardEvent.key. Presenter clickers usually send PageUp/PageDown and "." or "b"
+export const WORKOUT_SHORTCUTS = {
+  togglePause: [' ', 'p', '.', 'b'],
+  skip: ['ArrowRight', 'PageDown', 'n'],
+  previous: ['ArrowLeft', 'PageUp'],
+};
+
 export const PLACEHOLDER_IMAGE_SVG = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='200' height='200' viewBox='0 0 200 200'%3E%3Crect width='200' height='200' fill='%233C3C3C'/%3E%3Ctext x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='sans-serif' font-size='100' fill='%23C8C8C8'%3E?%3C/text%3E%3C/svg%3E";
 
+// MediaPipe pose landmark names, in landmark index order
+export const POSE_LANDMARK_NAMES = [
+  "NOSE", "LEFT_EYE_INNER", "LEFT_EYE", "LEFT_EYE_OUTER", "RIGHT_EYE_INNER", "RIGHT_EYE", "RIGHT_EYE_OUTER",
+  "LEFT_EAR", "RIGHT_EAR", "MOUTH_LEFT", "MOUTH_RIGHT",
+  "LEFT_SHOULDER", "RIGHT_SHOULDER", "LEFT_ELBOW", "RIGHT_ELBOW", "LEFT_WRIST", "RIGHT_WRIST",
+  "LEFT_PINKY", "RIGHT_PINKY", "LEFT_INDEX", "RIGHT_INDEX", "LEFT_THUMB", "RIGHT_THUMB",
+  "LEFT_HIP", "RIGHT_HIP", "LEFT_KNEE", "RIGHT_KNEE", "LEFT_ANKLE", "RIGHT_ANKLE",
+  "LEFT_HEEL", "RIGHT_HEEL", "LEFT_FOOT_INDEX", "RIGHT_FOOT_INDEX",
+];
+
+export const DEFAULT_WORKOUT_ID = 'default';
+export const DEFAULT_WORKOUT_TITLE = 'Default Workout';
+
+export const HISTORY_DB_NAME = 'ai-exercise-coach';
+export const HISTORY_DB_VERSION = 1;
+export const HISTORY_SESSION_STORE = 'sessions';
+export const HISTORY_TREND_LENGTH = 10; // Sessions shown per pose trend
+
+// Pose authoring
+export const AUTHORING_COUNTDOWN_SECONDS = 3; // Time to get into position before sampling starts
+export const AUTHORING_SAMPLE_SECONDS = 3;
+export const AUTHORING_SPREAD_FACTOR = 2; // Proposed ranges span mean ± this many standard deviations
+export const AUTHORING_MIN_HALF_RANGE = 10; // Degrees, so a very steady demonstration still leaves some slack
+export const AUTHORING_MIN_VISIBLE_RATIO = 0.5; // Joints seen in fewer sampled frames are not selected by default
+export const AUTHORING_SNAPSHOT_WIDTH = 400; // Pixels
+
 export const CONFIG_FILE_PATH = 'exercise_config.json'; // Changed: Removed leading slash
@@ -0,0 +1,54 @@
+import { useState, useCallback } from 'react';
+import { EngineSettings } from '../types';
+import { DEFAULT_ENGINE_SETTINGS, ENGINE_SETTINGS_STORAGE_KEY } from '../constants';
+
+interface EngineSettingsHook {
+  settings: EngineSettings;
+  updateSettings: (changes: Partial<EngineSettings>) => void;
+  resetSettings: () => void;
+  isDefault: boolean; // Whether the saved settings match DEFAULT_ENGINE_SETTINGS, which are known to start
+}
+
+const loadSettings = (): EngineSettings => {
+  try {
+    const stored = window.localStorage.getItem(ENGINE_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_ENGINE_SETTINGS;
+    // Fields added in later versions fall back to their defaults
+    return { ...DEFAULT_ENGINE_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn("Could not load engine settings:", error);
+    return DEFAULT_ENGINE_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: EngineSettings) => {
+  try {
+    window.localStorage.setItem(ENGINE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save engine settings:", error);
+  }
+};
+
+const useEngineSettings = (): EngineSettingsHook => {
+  const [settings, setSettings] = useState<EngineSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<EngineSettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    saveSettings(DEFAULT_ENGINE_SETTINGS);
+    setSettings(DEFAULT_ENGINE_SETTINGS);
+  }, []);
+
+  const isDefault = (Object.keys(DEFAULT_ENGINE_SETTINGS) as (keyof EngineSettings)[])
+    .every(key => settings[key] === DEFAULT_ENGINE_SETTINGS[key]);
+
+  return { settings, updateSettings, resetSettings, isDefault };
+};
+
+export default useEngineSettings;
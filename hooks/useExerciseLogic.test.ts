@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExerciseConfig, ExercisePhase, Workout } from '../types';
+import { Clock, createManualClock } from '../services/clock';
+import { LandmarkTrace, parseTrace, replayTrace } from '../services/landmarkTrace';
+import { expandMirroredPoses } from '../services/poseMirroring';
+import useExerciseLogic from './useExerciseLogic';
+
+const readFile = (path: string) => readFileSync(new URL(path, import.meta.url), 'utf8');
+const CONFIG = expandMirroredPoses(JSON.parse(readFile('../public/exercise_config.json')) as ExerciseConfig);
+const T_POSE_WORKOUT: Workout = { id: "t_pose", title: "T-Pose", sequence: ["t_pose"] };
+// Walks into view during the introduction, raises the arms after framing, and holds a T-pose with a brief sag at 15.5 s
+const T_POSE_TRACE = parseTrace(readFile('../traces/t_pose_hold.json'));
+
+// Starts the workout on a clock that trace replay moves, with the workout started at the trace's first frame
+function startWorkout(trace: LandmarkTrace, workout: Workout, locale = "en") {
+  const manualClock = createManualClock(trace.frames[0].timestampMs);
+  // Timers fire inside act(), so the hook has re-rendered for a new phase before the next frame arrives
+  const clock: Clock = { ...manualClock, setTimeout: (callback, delayMs) => manualClock.setTimeout(() => act(callback), delayMs) };
+  const speak = vi.fn();
+  const speakCue = vi.fn();
+  const { result } = renderHook(() => useExerciseLogic({
+    config: CONFIG,
+    workout,
+    difficulty: "intermediate",
+    locale,
+    trackingMode: "single",
+    speak,
+    speakCue,
+    cancelCue: vi.fn(),
+    stopTTS: vi.fn(),
+    clock,
+  }));
+  act(() => {
+    result.current.dispatch({ type: "CONFIG_LOADED" });
+    result.current.dispatch({ type: "ENGINE_READY" });
+  });
+  act(() => result.current.startWorkout());
+
+  const replay = (frames = trace.frames) => replayTrace(
+    { ...trace, frames },
+    frame => act(() => result.current.processFrameLandmarks(frame)),
+    manualClock
+  );
+  return { result, replay, speak, speakCue };
+}
+
+describe("useExerciseLogic on a recorded trace", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("completes a T-pose held for its hold time", () => {
+    // The completed session is saved to IndexedDB, which jsdom doesn't have
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result, replay } = startWorkout(T_POSE_TRACE, T_POSE_WORKOUT);
+    replay();
+
+    expect(result.current.phase).toBe(ExercisePhase.COMPLETED);
+    const [pose] = result.current.sessionSummary?.poses ?? [];
+    expect(pose.poseName).toBe("t_pose");
+    expect(pose.skipped).toBeFalsy();
+    // Framed 11 s in, once the 10 s introduction and 1 s of framing are over; the arms are up 1.75 s later.
+    // The hold takes 5 s, and survives the sag within its grace period but doesn't count it.
+    expect(pose.timeToFirstCorrectSeconds).toBeCloseTo(1.75, 1);
+    expect(pose.correctionSeconds).toBeCloseTo(1.75 + 5 + 0.5, 1);
+  });
+
+  it("keeps checking a T-pose that was not held long enough", () => {
+    const { result, replay } = startWorkout(T_POSE_TRACE, T_POSE_WORKOUT);
+    const firstMs = T_POSE_TRACE.frames[0].timestampMs;
+    replay(T_POSE_TRACE.frames.filter(frame => frame.timestampMs - firstMs < 16_000));
+
+    expect(result.current.phase).toBe(ExercisePhase.CORRECTION);
+    expect(result.current.holdProgress).toBeGreaterThan(0.2);
+    expect(result.current.holdProgress).toBeLessThan(1);
+    expect(result.current.sessionSummary).toBeNull();
+  });
+
+  it("coaches in the chosen locale", () => {
+    const { replay, speak, speakCue } = startWorkout(T_POSE_TRACE, T_POSE_WORKOUT, "de");
+    const firstMs = T_POSE_TRACE.frames[0].timestampMs;
+    // Steps out of view for the first half second of framing
+    replay(T_POSE_TRACE.frames
+      .filter(frame => frame.timestampMs - firstMs < 12_000)
+      .map(frame => frame.timestampMs - firstMs >= 10_000 && frame.timestampMs - firstMs < 10_500 ? { ...frame, landmarks: null, worldLandmarks: null } : frame));
+
+    expect(speak.mock.calls.map(call => call[0])).toEqual([
+      expect.stringMatching(/^Als Nächstes: T-Haltung\. Stell dich gerade hin/),
+      "Geh in Position.",
+      "Halte T-Haltung.",
+    ]);
+    expect(speakCue).toHaveBeenCalledWith("Tritt ins Bild der Kamera.");
+  });
+});
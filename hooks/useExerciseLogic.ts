@@ -1,207 +1,648 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { ExerciseConfig, PoseData, ExercisePhase, AngleDetail, PoseLandmarks, NormalizedLandmarkList } from '../types';
-import { checkPoseAngles } from '../services/poseUtils';
-import { DESCRIPTION_DISPLAY_TIME, IMAGE_DISPLAY_TIME, POSE_HOLD_SECONDS, EASY_MODE_TOLERANCE } from '../constants';
+import { useState, useEffect, useCallback, useMemo, useRef, RefObject } from 'react';
+import { ExerciseConfig, Workout, WorkoutProgress, WorkoutStep, Difficulty, WorkoutSession, PoseSessionMetrics, PoseData, ExercisePhase, AngleDetail, PoseFrame, PoseWorldLandmarks, NormalizedLandmarkList, PoseCriteria, TrackingMode, ParticipantProgress, TrackedPerson, FramingStatus, FramingRequirements } from '../types';
+import { checkPoseAngles, resetPoseWarnings } from '../services/poseUtils';
+import { createPoseMetrics, recordFrameMetrics, saveSession } from '../services/sessionHistory';
+import { HoldState, INITIAL_HOLD_STATE, advanceHold, resumeHold } from '../services/holdTracker';
+import { LandmarkFilter, createLandmarkFilter } from '../services/landmarkFilter';
+import { getPoseTargets } from '../services/difficulty';
+import { checkFraming, getFramingRequirements } from '../services/framing';
+import { getTurnGuidance } from '../services/orientation';
+import { buildWorkoutPlan } from '../services/workouts';
+import { localize } from '../services/localization';
+import { getMessages } from '../services/messages';
+import { CueState, INITIAL_CUE_STATE, advanceCues } from '../services/feedbackCues';
+import { RepCounterState, INITIAL_REP_COUNTER, advanceRepCounter, getAwaitedKeyframe } from '../services/repCounter';
+import { WorkoutMachineState, WorkoutEvent, WorkoutEffect, INITIAL_WORKOUT_MACHINE, advanceWorkout, getNextWakeMs, getPreviousPoseIndex, isWorkoutRunning } from '../services/workoutMachine';
+import { Clock, systemClock } from '../services/clock';
+import { REST_COUNTDOWN_SECONDS, DEFAULT_TARGET_REPS, HOLD_GRACE_SECONDS, DEFAULT_SMOOTHING, UI_UPDATE_INTERVAL_MS, FRAMING_HOLD_SECONDS, CUE_MIN_GAP_SECONDS, CUE_REPEAT_COOLDOWN_SECONDS } from '../constants';
 
 interface UseExerciseLogicProps {
   config: ExerciseConfig | null;
+  workout: Workout | null; // The routine to run when the workout starts
+  difficulty: Difficulty; // Scales hold times and tolerances
+  locale: string; // Selects translations of the config text and of the app's own messages
+  trackingMode: TrackingMode; // Coach the person in focus, or everyone in view
   speak: (text: string) => void;
+  speakCue: (text: string) => void; // Spoken corrections, see useTTS
+  cancelCue: (text: string) => void;
   stopTTS: () => void;
-  onCameraError: () => void;
-  onPoseInitError: () => void; // Callback for pose initialization errors
+  clock?: Clock; // Drives the phase timers and session timings, defaults to real time
+}
+
+// The per-frame values that are rendered
+interface FrameView {
+  angleDetails: AngleDetail[];
+  feedbackMessages: string[];
+  poseScore: number;
+  holdProgress: number;
+  repCount: number;
+  groupProgress: { completed: number; total: number } | null; // People done with the pose, in group mode
+  framing: FramingStatus | null; // Set during FRAMING
+}
+
+const INITIAL_FRAME_VIEW: FrameView = { angleDetails: [], feedbackMessages: [], poseScore: 0, holdProgress: 0, repCount: 0, groupProgress: null, framing: null };
+
+// What group mode keeps for each person, keyed by tracked person id
+interface ParticipantState {
+  hold: HoldState;
+  repCounter: RepCounterState;
+  landmarkFilter: LandmarkFilter;
+  worldLandmarkFilter: LandmarkFilter;
+  completed: boolean;
 }
 
 interface ExerciseLogicState {
   phase: ExercisePhase;
   currentPoseData: PoseData | null;
   currentPoseDisplayName: string;
+  workoutProgress: WorkoutProgress | null; // Set, round and pose position of the current step
+  restSecondsLeft: number; // Countdown during REST
+  upNextDisplayName: string; // The pose a rest leads into
   angleDetails: AngleDetail[];
+  overlayRef: RefObject<AngleDetail[]>; // Updated on every frame, for drawing
+  participantsRef: RefObject<ParticipantProgress[]>; // Per-person progress in group mode, for drawing
+  framingRef: RefObject<FramingStatus | null>; // Updated on every frame during FRAMING, for drawing
   feedbackMessages: string[];
   holdProgress: number; // 0 to 1
-  startNextPose: () => void;
-  processFrameLandmarks: (landmarks: PoseLandmarks, frameWidth: number, frameHeight: number) => void; // PoseLandmarks is NormalizedLandmarkList | null
+  poseScore: number; // Overall form score of the latest frame, 0 to 100
+  holdSeconds: number; // Hold time of the current pose at the chosen difficulty
+  repCount: number;
+  repTarget: number; // 0 when the current pose is a static hold
+  groupProgress: { completed: number; total: number } | null;
+  framing: FramingStatus | null; // What the user has to do before the pose is checked
+  sessionSummary: WorkoutSession | null; // Set once the workout is completed
+  isPaused: boolean;
+  canGoBack: boolean;
+  dispatch: (event: WorkoutEvent) => void; // For events from outside the workout, e.g. config loading and engine readiness
+  startWorkout: () => void;
+  pauseWorkout: () => void; // Freezes the phase timers, hold progress and rep counting
+  resumeWorkout: () => void;
+  skipPose: () => void; // Moves on without completing the pose, which is marked as skipped in the session, or ends a rest early
+  previousPose: () => void; // Restarts the previous pose step, or the current one if it is the first
+  processFrameLandmarks: (frame: PoseFrame) => void;
   resetWorkout: () => void;
-  setPhaseManually: (phase: ExercisePhase) => void; // To allow App.tsx to set phase for init
 }
 
-const useExerciseLogic = ({ config, speak, stopTTS, onCameraError, onPoseInitError }: UseExerciseLogicProps): ExerciseLogicState => {
-  const [phase, setPhase] = useState<ExercisePhase>(ExercisePhase.IDLE);
-  const [currentPoseIndex, setCurrentPoseIndex] = useState<number>(-1);
+const useExerciseLogic = ({ config, workout, difficulty, locale, trackingMode, speak, speakCue, cancelCue, stopTTS, clock = systemClock }: UseExerciseLogicProps): ExerciseLogicState => {
+  // The single source of truth for the phase; see services/workoutMachine.ts for the transitions
+  const [machine, setMachine] = useState<WorkoutMachineState>(INITIAL_WORKOUT_MACHINE);
+  const machineRef = useRef<WorkoutMachineState>(INITIAL_WORKOUT_MACHINE);
   const [currentPoseData, setCurrentPoseData] = useState<PoseData | null>(null);
   const [currentPoseDisplayName, setCurrentPoseDisplayName] = useState<string>("");
+  const [upNextDisplayName, setUpNextDisplayName] = useState<string>("");
   
-  const [angleDetails, setAngleDetails] = useState<AngleDetail[]>([]);
-  const [feedbackMessages, setFeedbackMessages] = useState<string[]>([]);
-  
-  const [holdStartTime, setHoldStartTime] = useState<number | null>(null);
-  const [holdProgress, setHoldProgress] = useState<number>(0);
+  // What frames show on screen; published at most every UI_UPDATE_INTERVAL_MS, see publishView
+  const [frameView, setFrameView] = useState<FrameView>(INITIAL_FRAME_VIEW);
+  const lastViewUpdateRef = useRef<number | null>(null);
+  // Criteria of the latest frame for the overlay, which is drawn every frame without re-rendering
+  const overlayRef = useRef<AngleDetail[]>([]);
 
-  const phaseTimeoutRef = useRef<number | null>(null);
+  // Advanced on every frame, so they live in refs
+  const holdStateRef = useRef<HoldState>(INITIAL_HOLD_STATE);
+  const repCounterRef = useRef<RepCounterState>(INITIAL_REP_COUNTER);
+  const halfRepMessageRef = useRef<string | null>(null);
+  const participantStatesRef = useRef<Map<number, ParticipantState>>(new Map());
+  const participantsRef = useRef<ParticipantProgress[]>([]);
+  // The framing check, see processFramingFrame
+  const framingRequirementsRef = useRef<FramingRequirements>({ landmarks: [], orientation: null });
+  const framingRef = useRef<FramingStatus | null>(null);
+  const framedSinceRef = useRef<number | null>(null);
+  const framingCueRef = useRef<{ message: string; atMs: number } | null>(null);
 
-  useEffect(() => {
-    if (config && phase !== ExercisePhase.INITIALIZING_POSE && phase !== ExercisePhase.POSE_INIT_ERROR) { // Ensure config is loaded before trying to start
-      setPhase(ExercisePhase.IDLE);
-      setCurrentPoseIndex(-1);
-    } else if (!config && phase !== ExercisePhase.CONFIG_ERROR) {
-      setPhase(ExercisePhase.LOADING_CONFIG);
-    }
-  }, [config, phase]);
-  
-  const clearPhaseTimeout = () => {
-    if (phaseTimeoutRef.current) {
-      clearTimeout(phaseTimeoutRef.current);
-      phaseTimeoutRef.current = null;
+  const [sessionSummary, setSessionSummary] = useState<WorkoutSession | null>(null);
+
+  // Metrics are collected in refs, they are only rendered once the workout is completed
+  const sessionRef = useRef<WorkoutSession | null>(null);
+  const poseMetricsRef = useRef<PoseSessionMetrics | null>(null);
+  const correctionStartRef = useRef<number | null>(null);
+  // Filters keep per-landmark history, so they live in refs and are recreated for every pose
+  const landmarkFilterRef = useRef<LandmarkFilter | null>(null);
+  const worldLandmarkFilterRef = useRef<LandmarkFilter | null>(null);
+  const cueStateRef = useRef<CueState>(INITIAL_CUE_STATE);
+
+  // The workout with its sets, rounds and rests laid out as consecutive steps
+  const plan = useMemo(() => (workout ? buildWorkoutPlan(workout) : []), [workout]);
+  const planRef = useRef<WorkoutStep[]>(plan);
+  planRef.current = plan;
+  const { phase, stepIndex } = machine;
+  const currentStep = plan[stepIndex] ?? null;
+  const isPaused = machine.pausedAtMs !== null;
+  const messages = useMemo(() => getMessages(locale), [locale]);
+
+  const { holdSeconds, tolerance, positionTolerance } = useMemo(() => getPoseTargets(currentPoseData, difficulty), [currentPoseData, difficulty]);
+
+  // pausedMs is a pause still running when the pose ends, which isn't counted either
+  const finishPoseMetrics = (pausedMs: number) => {
+    const metrics = poseMetricsRef.current;
+    if (metrics && sessionRef.current) {
+      if (correctionStartRef.current !== null) {
+        metrics.correctionSeconds = (clock.now() - pausedMs - correctionStartRef.current) / 1000;
+      }
+      sessionRef.current.poses.push(metrics);
     }
+    poseMetricsRef.current = null;
+    correctionStartRef.current = null;
   };
 
-  const setPhaseManually = useCallback((newPhase: ExercisePhase) => {
-    clearPhaseTimeout();
-    // Potentially stop TTS or other actions depending on the new phase
-    if (newPhase === ExercisePhase.POSE_INIT_ERROR || newPhase === ExercisePhase.CAMERA_ERROR) {
-      stopTTS();
+  // Speaks the most important correction and drops queued cues for criteria that are now met
+  const updateSpokenCues = (details: AngleDetail[]) => {
+    const { state, cue, resolved } = advanceCues(cueStateRef.current, details, clock.now());
+    cueStateRef.current = state;
+    resolved.forEach(cancelCue);
+    if (cue) speakCue(cue);
+  };
+
+  const markFirstCorrect = () => {
+    const metrics = poseMetricsRef.current;
+    if (metrics && metrics.timeToFirstCorrectSeconds === null && correctionStartRef.current !== null) {
+      metrics.timeToFirstCorrectSeconds = (clock.now() - correctionStartRef.current) / 1000;
     }
-    setPhase(newPhase);
-  }, [stopTTS]);
+  };
 
+  // Framing and turning guidance is spoken like corrections: never right after another one, and the same message only after a long pause
+  const speakGuidance = (message: string) => {
+    const nowMs = clock.now();
+    const lastCue = framingCueRef.current;
+    const canSpeak = !lastCue || (nowMs - lastCue.atMs >= CUE_MIN_GAP_SECONDS * 1000 &&
+      (lastCue.message !== message || nowMs - lastCue.atMs >= CUE_REPEAT_COOLDOWN_SECONDS * 1000));
+    if (!canSpeak) return;
+    speakCue(message);
+    framingCueRef.current = { message, atMs: nowMs };
+  };
 
-  const startNextPose = useCallback(() => {
-    clearPhaseTimeout();
-    stopTTS();
-    setAngleDetails([]);
-    setFeedbackMessages([]);
-    setHoldStartTime(null);
-    setHoldProgress(0);
+  // Re-rendering on every frame makes the page stutter on slower machines; force is for changes that must not be dropped
+  const publishView = (view: FrameView, force: boolean = false) => {
+    const nowMs = clock.now();
+    if (!force && lastViewUpdateRef.current !== null && nowMs - lastViewUpdateRef.current < UI_UPDATE_INTERVAL_MS) return;
+    lastViewUpdateRef.current = nowMs;
+    setFrameView(view);
+  };
 
-    if (!config) {
-      setPhase(ExercisePhase.CONFIG_ERROR); 
-      return;
-    }
-    // Ensure pose landmarker is ready before starting sequence
-    if (phase === ExercisePhase.INITIALIZING_POSE || phase === ExercisePhase.POSE_INIT_ERROR) {
-        console.warn("Pose Landmarker not ready, cannot start next pose.");
-        if(phase === ExercisePhase.POSE_INIT_ERROR) onPoseInitError();
-        return;
-    }
+  const resetPoseState = () => {
+    overlayRef.current = [];
+    holdStateRef.current = INITIAL_HOLD_STATE;
+    repCounterRef.current = INITIAL_REP_COUNTER;
+    halfRepMessageRef.current = null;
+    participantStatesRef.current = new Map();
+    participantsRef.current = [];
+    framingRef.current = null;
+    framedSinceRef.current = null;
+    framingCueRef.current = null;
+    publishView(INITIAL_FRAME_VIEW, true);
+    cueStateRef.current = INITIAL_CUE_STATE;
+  };
 
+  const getDisplayName = (poseName: string) => localize(config?.poses[poseName]?.display_name, locale) || poseName.replace(/_/g, ' ');
 
-    const nextIndex = currentPoseIndex + 1;
-    if (nextIndex >= config.sequence.length) {
-      setPhase(ExercisePhase.COMPLETED);
-      speak("Workout completed! Well done.");
+  const startStep = (index: number) => {
+    stopTTS();
+    resetPoseState();
+    const step = plan[index];
+    if (!step) return;
+
+    if (step.kind === "rest") {
+      const nextStep = plan[index + 1];
+      const nextName = nextStep?.kind === "pose" ? getDisplayName(nextStep.poseName) : "";
       setCurrentPoseData(null);
-      setCurrentPoseDisplayName("Workout Complete!");
+      setCurrentPoseDisplayName("");
+      setUpNextDisplayName(nextName);
+      speak(messages.rest(step.seconds, nextName));
       return;
     }
 
-    setCurrentPoseIndex(nextIndex);
-    const poseName = config.sequence[nextIndex];
-    const pose = config.poses[poseName];
+    const pose = config?.poses[step.poseName] ?? null;
+    const displayName = getDisplayName(step.poseName);
     setCurrentPoseData(pose);
-    const displayName = pose?.display_name || poseName.replace(/_/g, ' ');
     setCurrentPoseDisplayName(displayName);
+    poseMetricsRef.current = createPoseMetrics(step.poseName, displayName);
+    const smoothing = pose?.smoothing || DEFAULT_SMOOTHING;
+    landmarkFilterRef.current = createLandmarkFilter(smoothing);
+    worldLandmarkFilterRef.current = createLandmarkFilter(smoothing);
+    speak(messages.nextPose(displayName, localize(pose?.description, locale) || messages.defaultDescription));
+  };
 
-    setPhase(ExercisePhase.DESCRIPTION);
-    const description = pose?.description || "Get ready for the next pose.";
-    speak(`Next: ${displayName}. ${description}`);
-    phaseTimeoutRef.current = window.setTimeout(() => {
-      setPhase(ExercisePhase.IMAGE);
-      phaseTimeoutRef.current = window.setTimeout(() => {
-        setPhase(ExercisePhase.CORRECTION);
-        speak(`Hold ${displayName}.`);
-      }, IMAGE_DISPLAY_TIME * 1000);
-    }, DESCRIPTION_DISPLAY_TIME * 1000);
-  }, [config, currentPoseIndex, phase, speak, stopTTS, onPoseInitError]);
-
-
-  const resetWorkout = useCallback(() => {
-    clearPhaseTimeout();
-    stopTTS();
-    // Don't reset to IDLE if config isn't loaded or pose init failed
-    if (config && phase !== ExercisePhase.INITIALIZING_POSE && phase !== ExercisePhase.POSE_INIT_ERROR && phase !== ExercisePhase.LOADING_CONFIG && phase !== ExercisePhase.CONFIG_ERROR) {
-        setPhase(ExercisePhase.IDLE);
-    }
-    setCurrentPoseIndex(-1);
+  const finishWorkout = () => {
+    resetPoseState();
+    speak(messages.workoutCompleted);
     setCurrentPoseData(null);
-    setCurrentPoseDisplayName("");
-    setAngleDetails([]);
-    setFeedbackMessages([]);
-    setHoldStartTime(null);
-    setHoldProgress(0);
-  }, [stopTTS, config, phase]);
-
-
-  const processFrameLandmarks = useCallback((
-    landmarks: PoseLandmarks, // Type is NormalizedLandmarkList | null
-    frameWidth: number, 
-    frameHeight: number
+    setCurrentPoseDisplayName(messages.workoutCompleteTitle);
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (session) {
+      session.finishedAt = clock.now();
+      setSessionSummary(session);
+      saveSession(session).catch(error => console.error("Failed to save workout session:", error));
+    }
+  };
+
+  const handleEffect = (effect: WorkoutEffect) => {
+    switch (effect.type) {
+      case "workout_started":
+        sessionRef.current = workout
+          ? { workoutId: workout.id, workoutTitle: workout.title, difficulty, startedAt: clock.now(), finishedAt: 0, poses: [] }
+          : null;
+        setSessionSummary(null);
+        // Each session warns afresh, so its console log is complete on its own
+        resetPoseWarnings();
+        break;
+      case "step_started":
+        startStep(effect.stepIndex);
+        break;
+      case "framing_started": {
+        const step = plan[machineRef.current.stepIndex];
+        const pose = step?.kind === "pose" ? config?.poses[step.poseName] : undefined;
+        framingRequirementsRef.current = pose && config ? getFramingRequirements(pose, config) : { landmarks: [], orientation: null };
+        framedSinceRef.current = null;
+        framingRef.current = { guidance: "step_into_view", message: messages.framing.step_into_view, progress: 0 };
+        speak(messages.getIntoPosition);
+        break;
+      }
+      case "correction_started": {
+        if (framingCueRef.current) cancelCue(framingCueRef.current.message);
+        framingRef.current = null;
+        framingCueRef.current = null;
+        publishView(INITIAL_FRAME_VIEW, true);
+        const step = plan[machineRef.current.stepIndex];
+        if (step?.kind !== "pose") break;
+        const displayName = getDisplayName(step.poseName);
+        correctionStartRef.current = clock.now();
+        speak(config?.poses[step.poseName]?.mode === "reps" ? messages.startReps(displayName) : messages.startHold(displayName));
+        break;
+      }
+      case "rest_countdown":
+        if (effect.secondsLeft <= REST_COUNTDOWN_SECONDS) speak(`${effect.secondsLeft}`);
+        break;
+      case "pose_left":
+        if (effect.reason === "discarded") {
+          // The abandoned attempt is left out of the session; the repeated pose gets a fresh entry
+          poseMetricsRef.current = null;
+          correctionStartRef.current = null;
+          break;
+        }
+        if (effect.reason === "skipped" && poseMetricsRef.current) poseMetricsRef.current.skipped = true;
+        if (effect.reason === "completed") speak(messages.poseCompleted);
+        finishPoseMetrics(effect.pausedMs);
+        break;
+      case "paused":
+        stopTTS();
+        speak(messages.paused);
+        break;
+      case "resumed":
+        // Paused time doesn't count towards the session metrics
+        if (correctionStartRef.current !== null) correctionStartRef.current += effect.pausedMs;
+        holdStateRef.current = resumeHold(holdStateRef.current);
+        framedSinceRef.current = null;
+        participantStatesRef.current.forEach(participant => { participant.hold = resumeHold(participant.hold); });
+        cueStateRef.current = INITIAL_CUE_STATE;
+        speak(messages.resuming);
+        break;
+      case "workout_completed":
+        finishWorkout();
+        break;
+      case "workout_cleared":
+        stopTTS();
+        // An abandoned workout is not saved to the history
+        sessionRef.current = null;
+        poseMetricsRef.current = null;
+        correctionStartRef.current = null;
+        setSessionSummary(null);
+        setCurrentPoseData(null);
+        setCurrentPoseDisplayName("");
+        resetPoseState();
+        break;
+    }
+  };
+  // Timers and frame callbacks dispatch from older renders, so effects always run with the latest handler
+  const handleEffectRef = useRef(handleEffect);
+  handleEffectRef.current = handleEffect;
+
+  const dispatch = useCallback((event: WorkoutEvent) => {
+    const { state, effects } = advanceWorkout(machineRef.current, event, planRef.current, clock.now());
+    machineRef.current = state;
+    setMachine(state);
+    effects.forEach(effect => handleEffectRef.current(effect));
+  }, [clock]);
+
+  // One timer at a time, for the next moment the machine has something to do
+  useEffect(() => {
+    const wakeMs = getNextWakeMs(machine);
+    if (wakeMs === null) return;
+    const handle = clock.setTimeout(() => dispatch({ type: "TICK" }), Math.max(0, wakeMs - clock.now()));
+    return () => clock.clearTimeout(handle);
+  }, [machine, clock, dispatch]);
+
+  const startWorkout = useCallback(() => dispatch({ type: "START" }), [dispatch]);
+  const pauseWorkout = useCallback(() => dispatch({ type: "PAUSE" }), [dispatch]);
+  const resumeWorkout = useCallback(() => dispatch({ type: "RESUME" }), [dispatch]);
+  const skipPose = useCallback(() => dispatch({ type: "SKIP" }), [dispatch]);
+  const previousPose = useCallback(() => dispatch({ type: "PREVIOUS" }), [dispatch]);
+  const resetWorkout = useCallback(() => dispatch({ type: "RESET" }), [dispatch]);
+
+  const processRepFrame = useCallback((
+    landmarks: NormalizedLandmarkList,
+    frameWidth: number,
+    frameHeight: number,
+    worldLandmarks: PoseWorldLandmarks
   ) => {
-    if (phase !== ExercisePhase.CORRECTION || !currentPoseData || !config) {
-      if (holdStartTime) setHoldStartTime(null); 
-      setHoldProgress(prev => holdStartTime === null ? 0 : prev); 
+    if (!currentPoseData || !config) return;
+    const keyframes = currentPoseData.keyframes || [];
+    if (keyframes.length < 2) {
+      console.warn(`Pose in "reps" mode needs at least two keyframes.`);
       return;
     }
 
-    if (!landmarks || landmarks.length === 0) { // landmarks is NormalizedLandmarkList (an array)
-      setFeedbackMessages(["Cannot see you clearly. Adjust your position."]);
-      setAngleDetails([]);
-      if (holdStartTime) setHoldStartTime(null);
-      setHoldProgress(0);
+    // Pose-wide criteria apply at every keyframe
+    const evaluateKeyframe = (index: number) => checkPoseAngles(
+      landmarks,
+      { ...currentPoseData.criteria, ...keyframes[index].criteria },
+      config.joint_definitions,
+      frameWidth,
+      frameHeight,
+      { tolerance, positionTolerance, worldLandmarks, defaultAngleMode: config.angle_mode, virtualLandmarks: config.virtual_landmarks, locale }
+    );
+
+    const awaitedIndex = getAwaitedKeyframe(repCounterRef.current, keyframes.length);
+    const awaitedResult = evaluateKeyframe(awaitedIndex);
+    const startResult = awaitedIndex === 0 ? awaitedResult : evaluateKeyframe(0);
+    overlayRef.current = awaitedResult.angleDetails;
+    if (poseMetricsRef.current) recordFrameMetrics(poseMetricsRef.current, awaitedResult.angleDetails, awaitedResult.score);
+
+    const { state: nextCounter, event } = advanceRepCounter(
+      repCounterRef.current,
+      keyframes.length,
+      startResult.allJointsCorrect,
+      awaitedResult.allJointsCorrect
+    );
+    repCounterRef.current = nextCounter;
+
+    if (event === "half_rep") {
+      halfRepMessageRef.current = localize(currentPoseData.half_rep_feedback, locale) || messages.halfRep;
+      speak(halfRepMessageRef.current);
+    } else if (event === "rep") {
+      halfRepMessageRef.current = null;
+    }
+    const warning = halfRepMessageRef.current;
+
+    const incorrectFeedbacks = awaitedResult.angleDetails
+      .filter(detail => !detail.is_correct && detail.feedback)
+      .sort((a, b) => b.priority - a.priority)
+      .map(detail => detail.feedback);
+    // Counted reps and half reps show up right away
+    publishView({
+      angleDetails: awaitedResult.angleDetails,
+      feedbackMessages: (warning ? [warning, ...incorrectFeedbacks] : incorrectFeedbacks).slice(0, 2),
+      poseScore: awaitedResult.score,
+      holdProgress: 0,
+      repCount: nextCounter.count,
+      groupProgress: null,
+      framing: null,
+    }, event !== "none");
+    // Keyframe criteria are expected to fail while moving between keyframes, so only pose-wide ones are spoken
+    const keyframeCriteria = keyframes[awaitedIndex].criteria;
+    updateSpokenCues(awaitedResult.angleDetails.filter(detail =>
+      currentPoseData.criteria.hasOwnProperty(detail.name) && !keyframeCriteria.hasOwnProperty(detail.name)
+    ));
+
+    if (event === "rep") {
+      markFirstCorrect();
+      const target = currentPoseData.target_reps || DEFAULT_TARGET_REPS;
+      if (nextCounter.count >= target) {
+        dispatch({ type: "POSE_COMPLETED" });
+      } else {
+        speak(`${nextCounter.count}`);
+      }
+    }
+  }, [currentPoseData, config, locale, messages, tolerance, positionTolerance, speak, speakCue, cancelCue, dispatch]);
+
+  // Partner and class mode: everyone in view does the pose, which is completed once all of them have.
+  // Corrections aren't spoken, since they couldn't say who they are meant for.
+  const processGroupFrame = useCallback((frame: PoseFrame) => {
+    if (!currentPoseData || !config) return;
+    const { frameWidth, frameHeight, timestampMs } = frame;
+    const isRepMode = currentPoseData.mode === "reps";
+    const keyframes = currentPoseData.keyframes || [];
+    if (isRepMode && keyframes.length < 2) {
+      console.warn(`Pose in "reps" mode needs at least two keyframes.`);
+      return;
+    }
+    const targetReps = currentPoseData.target_reps || DEFAULT_TARGET_REPS;
+    const graceMs = (currentPoseData.hold_grace_seconds ?? HOLD_GRACE_SECONDS) * 1000;
+    const smoothing = currentPoseData.smoothing || DEFAULT_SMOOTHING;
+    // Traces recorded before multi-person tracking hold a single person
+    const people: TrackedPerson[] = frame.people ?? (frame.landmarks ? [{ id: 1, landmarks: frame.landmarks, worldLandmarks: frame.worldLandmarks }] : []);
+
+    const evaluate = (criteria: PoseCriteria, landmarks: NormalizedLandmarkList, worldLandmarks: PoseWorldLandmarks) => checkPoseAngles(
+      landmarks,
+      criteria,
+      config.joint_definitions,
+      frameWidth,
+      frameHeight,
+      { tolerance, positionTolerance, worldLandmarks, defaultAngleMode: config.angle_mode, virtualLandmarks: config.virtual_landmarks, locale }
+    );
+
+    const newlyCompleted: number[] = [];
+    const results = people.map(person => {
+      const participant = participantStatesRef.current.get(person.id) ?? {
+        hold: INITIAL_HOLD_STATE,
+        repCounter: INITIAL_REP_COUNTER,
+        landmarkFilter: createLandmarkFilter(smoothing),
+        worldLandmarkFilter: createLandmarkFilter(smoothing),
+        completed: false,
+      };
+      participantStatesRef.current.set(person.id, participant);
+      const landmarks = participant.landmarkFilter.apply(person.landmarks, timestampMs);
+      const worldLandmarks = person.worldLandmarks && participant.worldLandmarkFilter.apply(person.worldLandmarks, timestampMs);
+      const wasCompleted = participant.completed;
+      // Criteria written for another viewpoint would be measured wrongly, so nothing counts until the person turns
+      const isFacing = !currentPoseData.orientation || getTurnGuidance(currentPoseData.orientation, person.landmarks, person.worldLandmarks) === null;
+
+      let result: ReturnType<typeof checkPoseAngles>;
+      let progress: number;
+      if (isRepMode) {
+        const awaitedIndex = getAwaitedKeyframe(participant.repCounter, keyframes.length);
+        result = evaluate({ ...currentPoseData.criteria, ...keyframes[awaitedIndex].criteria }, landmarks, worldLandmarks);
+        const startResult = awaitedIndex === 0
+          ? result
+          : evaluate({ ...currentPoseData.criteria, ...keyframes[0].criteria }, landmarks, worldLandmarks);
+        participant.repCounter = advanceRepCounter(
+          participant.repCounter, keyframes.length, isFacing && startResult.allJointsCorrect, isFacing && result.allJointsCorrect
+        ).state;
+        participant.completed = wasCompleted || participant.repCounter.count >= targetReps;
+        progress = participant.repCounter.count / targetReps;
+      } else {
+        result = evaluate(currentPoseData.criteria, landmarks, worldLandmarks);
+        participant.hold = advanceHold(participant.hold, isFacing && result.allJointsCorrect, timestampMs, graceMs);
+        participant.completed = wasCompleted || participant.hold.elapsedMs / 1000 >= holdSeconds;
+        progress = participant.hold.elapsedMs / 1000 / holdSeconds;
+      }
+      if (participant.completed && !wasCompleted) newlyCompleted.push(person.id);
+      return { personId: person.id, result, progress: participant.completed ? 1 : Math.min(progress, 1), completed: participant.completed };
+    });
+
+    overlayRef.current = results.flatMap(entry => entry.result.angleDetails);
+    participantsRef.current = results.map(({ personId, progress, completed }) => ({ personId, progress, completed }));
+    // The session records whoever has been in view the longest, i.e. has the lowest id
+    if (poseMetricsRef.current && results.length > 0) {
+      recordFrameMetrics(poseMetricsRef.current, results[0].result.angleDetails, results[0].result.score);
+    }
+    if (results.some(entry => entry.result.allJointsCorrect)) markFirstCorrect();
+
+    const waiting = results.filter(entry => !entry.completed);
+    if (results.length > 0 && waiting.length === 0) {
+      dispatch({ type: "POSE_COMPLETED" });
+      return;
+    }
+    newlyCompleted.forEach(personId => speak(messages.personDone(personId)));
+    publishView({
+      angleDetails: [],
+      feedbackMessages: results.length === 0
+        ? [messages.cannotSeeAnyone]
+        : [messages.waitingFor(waiting.map(entry => entry.personId))],
+      poseScore: results.length > 0 ? results.reduce((sum, entry) => sum + entry.result.score, 0) / results.length : 0,
+      holdProgress: 0,
+      repCount: 0,
+      groupProgress: { completed: results.length - waiting.length, total: results.length },
+      framing: null,
+    }, newlyCompleted.length > 0);
+  }, [currentPoseData, config, locale, messages, holdSeconds, tolerance, positionTolerance, speak, dispatch]);
+
+  // Before CORRECTION, waits until the landmarks the pose needs have stayed in view for FRAMING_HOLD_SECONDS
+  const processFramingFrame = useCallback((frame: PoseFrame) => {
+    const requirements = framingRequirementsRef.current;
+    // In group mode everyone in view has to be framed
+    const checks = trackingMode === "group" && frame.people
+      ? frame.people.map(person => ({ prefix: `#${person.id}: `, guidance: checkFraming(person.landmarks, person.worldLandmarks, requirements) }))
+      : [{ prefix: "", guidance: checkFraming(frame.landmarks, frame.worldLandmarks, requirements) }];
+    const unframed = checks.find(check => check.guidance !== null);
+    const guidance = checks.length === 0 ? "step_into_view" : unframed?.guidance ?? null;
+    const message = guidance ? `${unframed?.prefix ?? ""}${messages.framing[guidance]}` : "";
+
+    const { timestampMs } = frame;
+    if (guidance !== null) {
+      framedSinceRef.current = null;
+    } else if (framedSinceRef.current === null || timestampMs < framedSinceRef.current) {
+      framedSinceRef.current = timestampMs;
+    }
+    const progress = framedSinceRef.current === null ? 0 : Math.min(1, (timestampMs - framedSinceRef.current) / (FRAMING_HOLD_SECONDS * 1000));
+    if (progress >= 1) {
+      dispatch({ type: "FRAMED" });
+      return;
+    }
+
+    const changed = framingRef.current?.message !== message;
+    const status: FramingStatus = { guidance, message, progress };
+    framingRef.current = status;
+    if (message) speakGuidance(message);
+    publishView({ ...INITIAL_FRAME_VIEW, framing: status }, changed);
+  }, [trackingMode, messages, clock, speakCue, dispatch]);
+
+  const processFrameLandmarks = useCallback((frame: PoseFrame) => {
+    const { frameWidth, frameHeight, timestampMs } = frame;
+    if ((phase !== ExercisePhase.CORRECTION && phase !== ExercisePhase.FRAMING) || isPaused || !currentPoseData || !config) {
+      return;
+    }
+    if (phase === ExercisePhase.FRAMING) {
+      processFramingFrame(frame);
+      return;
+    }
+    if (trackingMode === "group") {
+      processGroupFrame(frame);
+      return;
+    }
+    const graceMs = (currentPoseData.hold_grace_seconds ?? HOLD_GRACE_SECONDS) * 1000;
+
+    // Criteria written for another viewpoint would be measured wrongly, so they wait until the user turns
+    const turnGuidance = frame.landmarks && currentPoseData.orientation
+      ? getTurnGuidance(currentPoseData.orientation, frame.landmarks, frame.worldLandmarks)
+      : null;
+    if (turnGuidance) speakGuidance(messages.framing[turnGuidance]);
+
+    if (!frame.landmarks || frame.landmarks.length === 0 || turnGuidance) { // landmarks is NormalizedLandmarkList (an array)
+      overlayRef.current = [];
+      // Losing the user briefly pauses the hold like any other dropout
+      const nextHold = advanceHold(holdStateRef.current, false, timestampMs, graceMs);
+      holdStateRef.current = nextHold;
+      publishView({
+        ...INITIAL_FRAME_VIEW,
+        feedbackMessages: [turnGuidance ? messages.framing[turnGuidance] : messages.cannotSeeYou],
+        holdProgress: nextHold.elapsedMs / 1000 / holdSeconds,
+        repCount: repCounterRef.current.count,
+      });
+      return;
+    }
+
+    // Smooth the landmarks before any criteria see them
+    const landmarks = landmarkFilterRef.current ? landmarkFilterRef.current.apply(frame.landmarks, timestampMs) : frame.landmarks;
+    const worldLandmarks = frame.worldLandmarks && worldLandmarkFilterRef.current
+      ? worldLandmarkFilterRef.current.apply(frame.worldLandmarks, timestampMs)
+      : frame.worldLandmarks;
+
+    if (currentPoseData.mode === "reps") {
+      processRepFrame(landmarks, frameWidth, frameHeight, worldLandmarks);
       return;
     }
 
     // landmarks is NormalizedLandmarkList (i.e., results.landmarks[0] from PoseLandmarkerResult)
-    const { angleDetails: newAngleDetails, allJointsCorrect } = checkPoseAngles(
+    const { angleDetails: newAngleDetails, allJointsCorrect, score } = checkPoseAngles(
       landmarks, // Pass NormalizedLandmarkList directly
       currentPoseData.criteria,
       config.joint_definitions,
       frameWidth,
       frameHeight,
-      EASY_MODE_TOLERANCE
+      { tolerance, positionTolerance, worldLandmarks, defaultAngleMode: config.angle_mode, virtualLandmarks: config.virtual_landmarks, locale }
     );
-    setAngleDetails(newAngleDetails);
+    overlayRef.current = newAngleDetails;
+    if (poseMetricsRef.current) recordFrameMetrics(poseMetricsRef.current, newAngleDetails, score);
 
     const incorrectFeedbacks = newAngleDetails
       .filter(detail => !detail.is_correct && detail.feedback)
+      .sort((a, b) => b.priority - a.priority)
       .map(detail => detail.feedback);
-    
-    setFeedbackMessages(incorrectFeedbacks.slice(0, 2)); 
+    updateSpokenCues(newAngleDetails);
 
-    if (allJointsCorrect) {
-      if (!holdStartTime) {
-        setHoldStartTime(Date.now());
-        setHoldProgress(0);
-      } else {
-        const elapsed = (Date.now() - holdStartTime) / 1000;
-        const progress = Math.min(elapsed / POSE_HOLD_SECONDS, 1);
-        setHoldProgress(progress);
-        if (elapsed >= POSE_HOLD_SECONDS) {
-          speak("Great!");
-          setHoldStartTime(null); 
-          setHoldProgress(0);
-          startNextPose(); 
-        }
-      }
+    if (allJointsCorrect) markFirstCorrect();
+    const nextHold = advanceHold(holdStateRef.current, allJointsCorrect, timestampMs, graceMs);
+    const elapsed = nextHold.elapsedMs / 1000;
+    if (elapsed >= holdSeconds) {
+      dispatch({ type: "POSE_COMPLETED" });
     } else {
-      if (holdStartTime) setHoldStartTime(null);
-      setHoldProgress(0);
+      holdStateRef.current = nextHold;
+      publishView({
+        angleDetails: newAngleDetails,
+        feedbackMessages: incorrectFeedbacks.slice(0, 2),
+        poseScore: score,
+        holdProgress: elapsed / holdSeconds,
+        repCount: 0,
+        groupProgress: null,
+        framing: null,
+      });
     }
-  }, [phase, currentPoseData, config, holdStartTime, speak, startNextPose]);
+  }, [phase, isPaused, trackingMode, currentPoseData, config, locale, messages, holdSeconds, tolerance, positionTolerance, speakCue, cancelCue, dispatch, processRepFrame, processGroupFrame, processFramingFrame]);
   
-  useEffect(() => {
-    return () => clearPhaseTimeout();
-  }, []);
-
   return {
     phase,
     currentPoseData,
     currentPoseDisplayName,
-    angleDetails,
-    feedbackMessages,
-    holdProgress,
-    startNextPose,
+    workoutProgress: currentStep?.progress ?? null,
+    restSecondsLeft: machine.restSecondsLeft,
+    upNextDisplayName,
+    ...frameView,
+    overlayRef,
+    participantsRef,
+    framingRef,
+    holdSeconds,
+    repTarget: currentPoseData?.mode === "reps" ? (currentPoseData.target_reps || DEFAULT_TARGET_REPS) : 0,
+    sessionSummary,
+    isPaused,
+    canGoBack: isWorkoutRunning(machine) && getPreviousPoseIndex(plan, stepIndex) !== -1,
+    dispatch,
+    startWorkout,
+    pauseWorkout,
+    resumeWorkout,
+    skipPose,
+    previousPose,
     processFrameLandmarks,
     resetWorkout,
-    setPhaseManually,
   };
 };
 
@@ -0,0 +1,107 @@
+import { useState, useCallback, useMemo, useRef, RefObject } from 'react';
+import { AngleDetail, ExerciseConfig, PoseFrame } from '../types';
+import { JointAngleStats, addAngleSamples, captureSnapshot, measureJointAngles, summarizeAngleSamples } from '../services/poseAuthoring';
+import { getMessages } from '../services/messages';
+import { AUTHORING_COUNTDOWN_SECONDS, AUTHORING_SAMPLE_SECONDS, AUTHORING_SNAPSHOT_WIDTH } from '../constants';
+
+export type AuthoringStatus = "idle" | "countdown" | "sampling" | "review";
+
+interface UsePoseAuthoringProps {
+  config: ExerciseConfig | null;
+  video: HTMLVideoElement | null; // Source of the snapshot, null for traces
+  locale: string; // Of the spoken prompts
+  speak: (text: string) => void;
+}
+
+interface PoseAuthoringHook {
+  status: AuthoringStatus;
+  secondsLeft: number; // Of the countdown or the sampling
+  liveAnglesRef: RefObject<AngleDetail[]>; // Every joint of the latest frame, for the overlay; a ref so frames don't re-render
+  stats: JointAngleStats[]; // Set once sampling is done
+  snapshot: string | null; // JPEG data URL taken at the end of sampling
+  startCapture: () => void;
+  cancelCapture: () => void;
+  recordFrame: (frame: PoseFrame) => void;
+}
+
+/**
+ * Samples every joint angle while an instructor demonstrates a pose.
+ * Sampling is timed by frame timestamps, so it also works on video files.
+ */
+const usePoseAuthoring = ({ config, video, locale, speak }: UsePoseAuthoringProps): PoseAuthoringHook => {
+  const [status, setStatus] = useState<AuthoringStatus>("idle");
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [stats, setStats] = useState<JointAngleStats[]>([]);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+
+  // recordFrame runs for every frame, so the sampling state lives in refs
+  const statusRef = useRef<AuthoringStatus>("idle");
+  const stageStartMsRef = useRef<number | null>(null);
+  const samplesRef = useRef<{ [jointName: string]: number[] }>({});
+  const sampledFramesRef = useRef(0);
+  const messages = useMemo(() => getMessages(locale), [locale]);
+  const liveAnglesRef = useRef<AngleDetail[]>([]);
+
+  const updateStatus = (next: AuthoringStatus) => {
+    statusRef.current = next;
+    stageStartMsRef.current = null;
+    setStatus(next);
+  };
+
+  const startCapture = useCallback(() => {
+    samplesRef.current = {};
+    sampledFramesRef.current = 0;
+    setStats([]);
+    setSnapshot(null);
+    setSecondsLeft(AUTHORING_COUNTDOWN_SECONDS);
+    updateStatus("countdown");
+    speak(messages.authoringCountdown(AUTHORING_COUNTDOWN_SECONDS));
+  }, [messages, speak]);
+
+  const cancelCapture = useCallback(() => {
+    updateStatus("idle");
+    setStats([]);
+    setSnapshot(null);
+  }, []);
+
+  const recordFrame = useCallback((frame: PoseFrame) => {
+    if (!config) return;
+    const angles = frame.landmarks
+      ? measureJointAngles(frame.landmarks, config, frame.frameWidth, frame.frameHeight, frame.worldLandmarks)
+      : [];
+    liveAnglesRef.current = angles;
+
+    const currentStatus = statusRef.current;
+    if (currentStatus !== "countdown" && currentStatus !== "sampling") return;
+    if (stageStartMsRef.current === null) stageStartMsRef.current = frame.timestampMs;
+    const elapsedSeconds = (frame.timestampMs - stageStartMsRef.current) / 1000;
+
+    if (currentStatus === "countdown") {
+      if (elapsedSeconds >= AUTHORING_COUNTDOWN_SECONDS) {
+        updateStatus("sampling");
+        setSecondsLeft(AUTHORING_SAMPLE_SECONDS);
+        speak(messages.authoringSampling);
+      } else {
+        setSecondsLeft(Math.ceil(AUTHORING_COUNTDOWN_SECONDS - elapsedSeconds));
+      }
+      return;
+    }
+
+    // Frames without the user still count, so joints that were often lost get a low visible ratio
+    sampledFramesRef.current += 1;
+    addAngleSamples(samplesRef.current, angles);
+    if (elapsedSeconds < AUTHORING_SAMPLE_SECONDS) {
+      setSecondsLeft(Math.ceil(AUTHORING_SAMPLE_SECONDS - elapsedSeconds));
+      return;
+    }
+    setStats(summarizeAngleSamples(samplesRef.current, Object.keys(config.joint_definitions), sampledFramesRef.current));
+    setSnapshot(video ? captureSnapshot(video, AUTHORING_SNAPSHOT_WIDTH) : null);
+    setSecondsLeft(0);
+    updateStatus("review");
+    speak(messages.authoringDone);
+  }, [config, video, messages, speak]);
+
+  return { status, secondsLeft, liveAnglesRef, stats, snapshot, startCapture, cancelCapture, recordFrame };
+};
+
+export default usePoseAuthoring;
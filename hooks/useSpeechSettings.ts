@@ -0,0 +1,50 @@
+import { useState, useCallback } from 'react';
+import { SpeechSettings } from '../types';
+import { DEFAULT_SPEECH_SETTINGS, SPEECH_SETTINGS_STORAGE_KEY } from '../constants';
+
+interface SpeechSettingsHook {
+  settings: SpeechSettings;
+  updateSettings: (changes: Partial<SpeechSettings>) => void;
+  resetSettings: () => void;
+}
+
+const loadSettings = (): SpeechSettings => {
+  try {
+    const stored = window.localStorage.getItem(SPEECH_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SPEECH_SETTINGS;
+    // Fields added in later versions fall back to their defaults
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn("Could not load speech settings:", error);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: SpeechSettings) => {
+  try {
+    window.localStorage.setItem(SPEECH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save speech settings:", error);
+  }
+};
+
+const useSpeechSettings = (): SpeechSettingsHook => {
+  const [settings, setSettings] = useState<SpeechSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<SpeechSettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    saveSettings(DEFAULT_SPEECH_SETTINGS);
+    setSettings(DEFAULT_SPEECH_SETTINGS);
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+};
+
+export default useSpeechSettings;
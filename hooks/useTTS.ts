@@ -1,18 +1,36 @@
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { TTS_DELAY, TTS_RATE } from '../constants';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { SpeechSettings } from '../types';
+import { TTS_DELAY, DEFAULT_SPEECH_SETTINGS } from '../constants';
+import { isSameLanguage } from '../services/localization';
 
 interface TTSHook {
   speak: (text: string) => void;
+  speakCue: (text: string) => void; // Replaces any pending cue; only spoken while nothing else is queued
+  cancelCue: (text: string) => void; // Drops the cue, or interrupts it if it is being spoken
   stop: () => void;
   isSpeaking: boolean;
+  voices: SpeechSynthesisVoice[]; // Loaded asynchronously by most browsers
+  voice: SpeechSynthesisVoice | null; // The voice utterances are currently spoken with
 }
 
-const useTTS = (): TTSHook => {
+// The saved voice if it speaks the chosen language, otherwise the browser's preferred voice for that language
+const pickVoice = (voices: SpeechSynthesisVoice[], settings: SpeechSettings): SpeechSynthesisVoice | null => {
+  const saved = voices.find(voice => voice.voiceURI === settings.voiceURI);
+  if (saved && isSameLanguage(saved.lang, settings.locale)) return saved;
+  const matching = voices.filter(voice => isSameLanguage(voice.lang, settings.locale));
+  return matching.find(voice => voice.lang === settings.locale) ?? matching.find(voice => voice.default) ?? matching[0] ?? null;
+};
+
+const useTTS = (settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS): TTSHook => {
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const queueRef = useRef<string[]>([]);
   const synthRef = useRef<SpeechSynthesis | null>(null);
   const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  // Corrective cues use a single slot instead of the queue, so they can never pile up
+  const pendingCueRef = useRef<string | null>(null);
+  const speakingCueRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
@@ -21,35 +39,60 @@ const useTTS = (): TTSHook => {
       console.warn('Text-to-Speech not supported in this browser.');
     }
 
+    const synth = synthRef.current;
+    const updateVoices = () => setVoices(synth ? synth.getVoices() : []);
+    updateVoices();
+    synth?.addEventListener('voiceschanged', updateVoices);
+
     return () => {
-      if (synthRef.current) {
-        synthRef.current.cancel();
+      if (synth) {
+        synth.removeEventListener('voiceschanged', updateVoices);
+        synth.cancel();
       }
     };
   }, []);
 
+  const voice = useMemo(() => pickVoice(voices, settings), [voices, settings]);
+  // Read when each utterance starts, so changing a setting doesn't disturb the queue
+  const settingsRef = useRef({ settings, voice });
+  settingsRef.current = { settings, voice };
+
   const processQueue = useCallback(() => {
-    if (!synthRef.current || isSpeaking || queueRef.current.length === 0) {
+    if (!synthRef.current || isSpeaking) {
       return;
     }
 
-    const textToSpeak = queueRef.current.shift();
+    let textToSpeak = queueRef.current.shift();
+    speakingCueRef.current = null;
+    if (!textToSpeak && pendingCueRef.current) {
+      textToSpeak = pendingCueRef.current;
+      speakingCueRef.current = textToSpeak;
+      pendingCueRef.current = null;
+    }
     if (textToSpeak) {
       setIsSpeaking(true);
       const utterance = new SpeechSynthesisUtterance(textToSpeak);
       currentUtteranceRef.current = utterance;
-      utterance.rate = TTS_RATE; 
-      // utterance.voice = ... // Optionally set voice
+      const { settings: current, voice: currentVoice } = settingsRef.current;
+      utterance.lang = currentVoice?.lang ?? current.locale;
+      utterance.voice = currentVoice;
+      utterance.rate = current.rate;
+      utterance.pitch = current.pitch;
+      utterance.volume = current.volume;
       
       utterance.onend = () => {
         setIsSpeaking(false);
         currentUtteranceRef.current = null;
+        speakingCueRef.current = null;
         setTimeout(processQueue, TTS_DELAY * 1000); 
       };
       utterance.onerror = (event) => {
-        console.error('SpeechSynthesisUtterance.onerror', event);
+        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+          console.error('SpeechSynthesisUtterance.onerror', event);
+        }
         setIsSpeaking(false);
         currentUtteranceRef.current = null;
+        speakingCueRef.current = null;
         setTimeout(processQueue, TTS_DELAY * 1000); 
       };
       synthRef.current.speak(utterance);
@@ -69,16 +112,33 @@ const useTTS = (): TTSHook => {
     processQueue();
   }, [processQueue]);
 
+  const speakCue = useCallback((text: string) => {
+    if (!synthRef.current || !text) return;
+    pendingCueRef.current = text;
+    processQueue();
+  }, [processQueue]);
+
+  const cancelCue = useCallback((text: string) => {
+    if (pendingCueRef.current === text) {
+      pendingCueRef.current = null;
+    }
+    if (speakingCueRef.current === text && synthRef.current) {
+      synthRef.current.cancel(); // onerror moves on to the rest of the queue
+    }
+  }, []);
+
   const stop = useCallback(() => {
     if (synthRef.current) {
       synthRef.current.cancel();
     }
     queueRef.current = [];
+    pendingCueRef.current = null;
+    speakingCueRef.current = null;
     setIsSpeaking(false);
     currentUtteranceRef.current = null;
   }, []);
 
-  return { speak, stop, isSpeaking };
+  return { speak, speakCue, cancelCue, stop, isSpeaking, voices, voice };
 };
 
 export default useTTS;
@@ -0,0 +1,51 @@
+import { useState, useCallback, useRef } from 'react';
+import { PoseFrame } from '../types';
+import { UI_UPDATE_INTERVAL_MS } from '../constants';
+import { LandmarkTrace, createTrace } from '../services/landmarkTrace';
+
+interface TraceRecorderHook {
+  isRecording: boolean;
+  frameCount: number; // Updated at most every UI_UPDATE_INTERVAL_MS while recording
+  startRecording: () => void;
+  stopRecording: (source: string) => LandmarkTrace | null; // Null if nothing was recorded
+  recordFrame: (frame: PoseFrame) => void;
+}
+
+const useTraceRecorder = (): TraceRecorderHook => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [frameCount, setFrameCount] = useState(0);
+  // Frames are kept in a ref so recording doesn't copy the whole trace on every frame
+  const framesRef = useRef<PoseFrame[]>([]);
+  const isRecordingRef = useRef(false);
+  const lastCountUpdateRef = useRef(0);
+
+  const startRecording = useCallback(() => {
+    framesRef.current = [];
+    isRecordingRef.current = true;
+    setFrameCount(0);
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback((source: string) => {
+    isRecordingRef.current = false;
+    setIsRecording(false);
+    const frames = framesRef.current;
+    setFrameCount(frames.length);
+    framesRef.current = [];
+    return frames.length > 0 ? createTrace(frames, source) : null;
+  }, []);
+
+  const recordFrame = useCallback((frame: PoseFrame) => {
+    if (!isRecordingRef.current) return;
+    framesRef.current.push(frame);
+    // Frames arrive at camera rate, and re-rendering the app for each one makes it stutter
+    const nowMs = performance.now();
+    if (nowMs - lastCountUpdateRef.current < UI_UPDATE_INTERVAL_MS) return;
+    lastCountUpdateRef.current = nowMs;
+    setFrameCount(framesRef.current.length);
+  }, []);
+
+  return { isRecording, frameCount, startRecording, stopRecording, recordFrame };
+};
+
+export default useTraceRecorder;
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,4 +15,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
-    
\ No newline at end of file
+    
+// Only production builds have a service worker, see serviceWorker.ts
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error("Service worker registration failed:", error));
+  });
+}
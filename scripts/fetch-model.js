@@ -0,0 +1,72 @@
+// Downloads pinned pose landmarker models into public/models, where they are served and precached from.
+// Takes the variants to fetch (lite, full, heavy); runs for lite after npm install.
+// Each file is checked against its SHA-256 in scripts/model-checksums.json; a file that doesn't match is deleted.
+// Pass --pin to record the checksums of the files fetched instead, then commit model-checksums.json.
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+
+const modelUrl = variant =>
+  `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_${variant}/float16/1/pose_landmarker_${variant}.task`;
+const VARIANTS = ['lite', 'full', 'heavy'];
+const CHECKSUMS_FILE = path.resolve('scripts/model-checksums.json');
+
+const args = process.argv.slice(2);
+const pin = args.includes('--pin');
+const requested = args.filter(arg => arg !== '--pin');
+const unknown = requested.filter(variant => !VARIANTS.includes(variant));
+if (unknown.length > 0) {
+  console.error(`Unknown model variant(s): ${unknown.join(', ')}. Choose from ${VARIANTS.join(', ')}.`);
+  process.exit(1);
+}
+
+const checksums = existsSync(CHECKSUMS_FILE) ? JSON.parse(readFileSync(CHECKSUMS_FILE, 'utf8')) : {};
+const sha256 = data => createHash('sha256').update(data).digest('hex');
+let failed = false;
+let mismatched = false;
+
+for (const variant of requested.length > 0 ? requested : ['lite']) {
+  const url = modelUrl(variant);
+  const file = path.resolve(`public/models/pose_landmarker_${variant}.task`);
+  try {
+    let data;
+    if (existsSync(file)) {
+      data = readFileSync(file);
+    } else {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      data = Buffer.from(await response.arrayBuffer());
+    }
+
+    const actual = sha256(data);
+    if (pin) {
+      checksums[variant] = actual;
+    } else if (!checksums[variant]) {
+      console.warn(`WARNING: no checksum is pinned for the ${variant} model, so it is not verified. Run \`node scripts/fetch-model.js --pin ${variant}\` and commit ${path.basename(CHECKSUMS_FILE)}.`);
+    } else if (actual !== checksums[variant]) {
+      // Also removes a partial or tampered file left by an earlier run, so the next install downloads it again
+      if (existsSync(file)) unlinkSync(file);
+      mismatched = true;
+      throw new Error(`SHA-256 ${actual} does not match the pinned ${checksums[variant]}`);
+    }
+
+    if (!existsSync(file)) {
+      mkdirSync(path.dirname(file), { recursive: true });
+      writeFileSync(file, data);
+      console.log(`Downloaded pose model to ${file}`);
+    } else {
+      console.log(`Pose model present at ${file}`);
+    }
+  } catch (error) {
+    failed = true;
+    console.error(`\nERROR: could not install the ${variant} pose model from ${url}: ${error.message}`);
+    console.error(`The app cannot detect poses without it. Download it by hand to ${file}, or run \`npm run fetch-models\` again.\n`);
+  }
+}
+
+if (pin) {
+  writeFileSync(CHECKSUMS_FILE, JSON.stringify(checksums, null, 2) + '\n');
+  console.log(`Pinned checksums written to ${CHECKSUMS_FILE}`);
+}
+// Installing still succeeds offline, since `npm run build` refuses to build without the lite model, but never with a bad file
+if (failed && (mismatched || requested.length > 0)) process.exitCode = 1;
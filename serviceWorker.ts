@@ -0,0 +1,56 @@
+// Precaches the built app, the MediaPipe runtime, the model and the config, so a whole workout runs with no network.
+// Built to /sw.js; PRECACHE_MANIFEST is filled in by the precache plugin in vite.config.ts.
+declare const PRECACHE_MANIFEST: { version: string; urls: string[] };
+
+// The DOM lib has no service worker types, so only what is used here is declared
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith: (response: Promise<Response>) => void;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  clients: { claim: () => Promise<void> };
+  skipWaiting: () => Promise<void>;
+  addEventListener(type: "install" | "activate", listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: "fetch", listener: (event: FetchEvent) => void): void;
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+const { version, urls } = PRECACHE_MANIFEST;
+const CACHE_PREFIX = "ai-exercise-coach-";
+const CACHE_NAME = `${CACHE_PREFIX}${version}`;
+
+worker.addEventListener("install", event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(urls))
+      .then(() => worker.skipWaiting())
+  );
+});
+
+// Caches of earlier builds are dropped once this one is active
+worker.addEventListener("activate", event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => worker.clients.claim())
+  );
+});
+
+// Cache first: the precached files only change with a new build, which comes with a new service worker
+worker.addEventListener("fetch", event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== worker.location.origin) return;
+  const cacheKey = request.mode === "navigate" ? "/index.html" : url.pathname;
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(cacheKey))
+      .then(cached => cached ?? fetch(request))
+  );
+});
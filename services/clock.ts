@@ -0,0 +1,51 @@
+// Time source for the workout flow. Swapping in a manual clock lets a whole workout run without real time passing.
+export interface Clock {
+  now: () => number; // Epoch ms
+  setTimeout: (callback: () => void, delayMs: number) => number;
+  clearTimeout: (handle: number) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => window.setTimeout(callback, delayMs),
+  clearTimeout: handle => window.clearTimeout(handle),
+};
+
+export interface ManualClock extends Clock {
+  advance: (ms: number) => void; // Moves time forward, running due timers in order
+}
+
+/**
+ * Creates a clock that only moves when advanced. Timers fire synchronously inside advance(), each seeing now()
+ * at its own due time.
+ */
+export function createManualClock(startMs: number = 0): ManualClock {
+  let nowMs = startMs;
+  let nextHandle = 1;
+  let timers: { handle: number; dueMs: number; callback: () => void }[] = [];
+
+  const advance = (ms: number) => {
+    const targetMs = nowMs + ms;
+    for (;;) {
+      const due = timers.filter(timer => timer.dueMs <= targetMs).sort((a, b) => a.dueMs - b.dueMs || a.handle - b.handle)[0];
+      if (!due) break;
+      timers = timers.filter(timer => timer !== due);
+      nowMs = Math.max(nowMs, due.dueMs);
+      due.callback();
+    }
+    nowMs = targetMs;
+  };
+
+  return {
+    now: () => nowMs,
+    setTimeout: (callback, delayMs) => {
+      const handle = nextHandle++;
+      timers.push({ handle, dueMs: nowMs + Math.max(0, delayMs), callback });
+      return handle;
+    },
+    clearTimeout: handle => {
+      timers = timers.filter(timer => timer.handle !== handle);
+    },
+    advance,
+  };
+}
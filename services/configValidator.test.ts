@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { validateExerciseConfig } from './configValidator';
+
+type Criteria = { [name: string]: unknown };
+
+// The shipped config, with extra criteria added to its first pose
+function configWithCriteria(criteria: Criteria): unknown {
+  const config: { poses: { [poseName: string]: { criteria: Criteria } } } =
+    JSON.parse(readFileSync(new URL('../public/exercise_config.json', import.meta.url), 'utf8'));
+  const [firstPose] = Object.values(config.poses);
+  firstPose.criteria = { ...firstPose.criteria, ...criteria };
+  return config;
+}
+
+describe("validateExerciseConfig", () => {
+  it("accepts the shipped config", () => {
+    expect(validateExerciseConfig(configWithCriteria({})).errors).toEqual([]);
+  });
+
+  it("accepts a symmetry criterion", () => {
+    const config = configWithCriteria({
+      arms_level: { kind: "symmetry", joints: ["left_shoulder", "right_shoulder"], max_difference: 10, feedback: { above_max: "Raise both arms evenly." } },
+    });
+    expect(validateExerciseConfig(config).errors).toEqual([]);
+  });
+
+  it("lists every criterion kind, symmetry included, for an unknown kind", () => {
+    const config = configWithCriteria({ arms_level: { kind: "mirror", feedback: { below_min: "", above_max: "" } } });
+    const kindError = validateExerciseConfig(config).errors.find(issue => issue.path.endsWith("arms_level.kind"));
+    expect(kindError?.message).toBe("Must be one of angle, offset, distance, symmetry.");
+  });
+});
@@ -0,0 +1,542 @@
+import { PoseData } from '../types';
+import { POSE_LANDMARK_NAMES } from '../constants';
+import { mirrorPose } from './poseMirroring';
+
+export interface ConfigIssue {
+  path: string; // JSON path of the offending value, e.g. "poses.t_pose.criteria.left_elbow.angle_range"
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  errors: ConfigIssue[];   // The config cannot be used
+  warnings: ConfigIssue[]; // The config works but is probably not what the author intended
+}
+
+const ANGLE_MODES = ["2d", "3d"];
+const POSE_MODES = ["hold", "reps"];
+const ORIENTATIONS = ["front", "left_side", "right_side", "back"];
+const FILTER_TYPES = ["none", "ema", "one_euro"];
+const CRITERION_KINDS = ["angle", "offset", "distance", "symmetry"];
+const REFERENCE_AXES = ["VERTICAL", "HORIZONTAL"];
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// A string, or a non-empty object of translations keyed by locale
+const isLocalizedText = (value: unknown): boolean =>
+  typeof value === 'string' ||
+  (isObject(value) && Object.keys(value).length > 0 && Object.values(value).every(text => typeof text === 'string'));
+
+interface IssueCollector extends ConfigValidationResult {
+  error: (path: string, message: string) => void;
+  warn: (path: string, message: string) => void;
+}
+
+const createIssueCollector = (): IssueCollector => {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+  return {
+    errors,
+    warnings,
+    error: (path, message) => errors.push({ path, message }),
+    warn: (path, message) => warnings.push({ path, message }),
+  };
+};
+
+// landmarkNames holds the MediaPipe and virtual landmark names, upper-cased
+const validateLandmarkName = (value: unknown, path: string, landmarkNames: Set<string>, issues: IssueCollector) => {
+  if (typeof value !== 'string') {
+    issues.error(path, 'Missing landmark name.');
+  } else if (!landmarkNames.has(value.toUpperCase())) {
+    issues.error(path, `Unknown landmark "${value}".`);
+  }
+};
+
+const validateLandmarkPair = (value: unknown, path: string, landmarkNames: Set<string>, issues: IssueCollector) => {
+  if (!Array.isArray(value) || value.length !== 2) {
+    issues.error(path, 'Must be a pair of landmark names.');
+    return;
+  }
+  value.forEach((name, index) => validateLandmarkName(name, `${path}[${index}]`, landmarkNames, issues));
+  if (value[0] === value[1]) {
+    issues.error(path, 'The two landmarks are the same, so their distance is always 0.');
+  }
+};
+
+/**
+ * Validates virtual_landmarks and returns their upper-cased names.
+ */
+function validateVirtualLandmarks(value: unknown, issues: IssueCollector): Set<string> {
+  const names = new Set<string>();
+  if (value === undefined) return names;
+  if (!isObject(value)) {
+    issues.error('virtual_landmarks', 'Must be an object mapping names to virtual landmarks.');
+    return names;
+  }
+
+  const realNames = new Set(POSE_LANDMARK_NAMES);
+  for (const [name, virtual] of Object.entries(value)) {
+    const path = `virtual_landmarks.${name}`;
+    const upperName = name.toUpperCase();
+    if (realNames.has(upperName) || REFERENCE_AXES.includes(upperName)) {
+      issues.error(path, `"${name}" is already a landmark or axis name.`);
+      continue;
+    }
+    names.add(upperName);
+    if (!isObject(virtual) || !Array.isArray(virtual.average) || virtual.average.length === 0) {
+      issues.error(path, 'Must be an object with an "average" list of landmark names.');
+      continue;
+    }
+    // Virtual landmarks are built from MediaPipe landmarks only, never from each other
+    virtual.average.forEach((part, index) => validateLandmarkName(part, `${path}.average[${index}]`, realNames, issues));
+    if (virtual.average.length === 1) {
+      issues.warn(`${path}.average`, 'Averages a single landmark; use that landmark directly.');
+    }
+  }
+  return names;
+}
+
+function validateJointDefinitions(value: unknown, landmarkNames: Set<string>, issues: IssueCollector): Set<string> {
+  const names = new Set<string>();
+  if (!isObject(value)) {
+    issues.error('joint_definitions', 'Must be an object mapping joint names to definitions.');
+    return names;
+  }
+
+  for (const [jointName, jointDef] of Object.entries(value)) {
+    const path = `joint_definitions.${jointName}`;
+    names.add(jointName);
+    if (!isObject(jointDef)) {
+      issues.error(path, 'Must be an object with a "landmarks" entry.');
+      continue;
+    }
+
+    if (!isObject(jointDef.landmarks)) {
+      issues.error(`${path}.landmarks`, 'Must be an object with A, B and C landmark names.');
+    } else {
+      const landmarks = jointDef.landmarks;
+      for (const key of ['A', 'B', 'C']) {
+        const name = landmarks[key];
+        // Endpoints may be a reference axis, the vertex must be a point on the body
+        if (key !== 'B' && typeof name === 'string' && REFERENCE_AXES.includes(name)) continue;
+        validateLandmarkName(name, `${path}.landmarks.${key}`, landmarkNames, issues);
+      }
+      if (REFERENCE_AXES.includes(landmarks.A as string) && REFERENCE_AXES.includes(landmarks.C as string)) {
+        issues.error(`${path}.landmarks`, 'A and C are both axes, so the angle never changes.');
+      }
+      if (typeof landmarks.B === 'string' && (landmarks.B === landmarks.A || landmarks.B === landmarks.C)) {
+        issues.warn(`${path}.landmarks`, 'The vertex B is the same as an endpoint, so the angle is always 0.');
+      }
+    }
+
+    if (jointDef.angle_mode !== undefined && !ANGLE_MODES.includes(jointDef.angle_mode as string)) {
+      issues.error(`${path}.angle_mode`, `Must be one of ${ANGLE_MODES.join(', ')}.`);
+    }
+  }
+  return names;
+}
+
+function validateAngleCriterion(criterion: JsonObject, path: string, jointName: string, jointNames: Set<string>, issues: IssueCollector) {
+  if (!jointNames.has(jointName)) {
+    issues.error(path, `No joint definition named "${jointName}".`);
+  }
+  const range = criterion.angle_range;
+  if (!Array.isArray(range) || range.length !== 2 || !range.every(isFiniteNumber)) {
+    issues.error(`${path}.angle_range`, 'Must be a [min, max] pair of numbers.');
+  } else {
+    const [min, max] = range as [number, number];
+    if (min > max) {
+      issues.error(`${path}.angle_range`, `Range is inverted: min ${min} is greater than max ${max}.`);
+    }
+    if (min < 0 || max > 180) {
+      issues.warn(`${path}.angle_range`, 'Joint angles are always between 0 and 180 degrees.');
+    }
+  }
+}
+
+function validatePositionCriterion(criterion: JsonObject, path: string, landmarkNames: Set<string>, issues: IssueCollector) {
+  if (criterion.kind === 'offset') {
+    validateLandmarkName(criterion.landmark, `${path}.landmark`, landmarkNames, issues);
+    validateLandmarkName(criterion.reference, `${path}.reference`, landmarkNames, issues);
+    if (criterion.axis !== 'x' && criterion.axis !== 'y') {
+      issues.error(`${path}.axis`, 'Must be "x" or "y".');
+    }
+    if (criterion.absolute !== undefined && typeof criterion.absolute !== 'boolean') {
+      issues.error(`${path}.absolute`, 'Must be true or false.');
+    }
+  } else {
+    validateLandmarkPair(criterion.landmarks, `${path}.landmarks`, landmarkNames, issues);
+  }
+  if (criterion.normalize_by !== undefined) {
+    validateLandmarkPair(criterion.normalize_by, `${path}.normalize_by`, landmarkNames, issues);
+  }
+
+  const range = criterion.range;
+  const isBound = (bound: unknown) => bound === null || isFiniteNumber(bound);
+  if (!Array.isArray(range) || range.length !== 2 || !range.every(isBound)) {
+    issues.error(`${path}.range`, 'Must be a [min, max] pair of numbers, with null for an open end.');
+    return;
+  }
+  const [min, max] = range as [number | null, number | null];
+  if (min === null && max === null) {
+    issues.warn(`${path}.range`, 'Both ends are open, so this criterion always passes.');
+  } else if (min !== null && max !== null && min > max) {
+    issues.error(`${path}.range`, `Range is inverted: min ${min} is greater than max ${max}.`);
+  }
+  if (criterion.kind === 'distance' || criterion.absolute) {
+    if ((min !== null && min < 0) || (max !== null && max < 0)) {
+      issues.warn(`${path}.range`, 'Distances are never negative.');
+    }
+  }
+}
+
+function validateSymmetryCriterion(criterion: JsonObject, path: string, jointNames: Set<string>, issues: IssueCollector) {
+  const joints = criterion.joints;
+  if (!Array.isArray(joints) || joints.length !== 2) {
+    issues.error(`${path}.joints`, 'Must be a pair of joint names.');
+  } else {
+    joints.forEach((jointName, index) => {
+      if (typeof jointName !== 'string' || !jointNames.has(jointName)) {
+        issues.error(`${path}.joints[${index}]`, `No joint definition named "${jointName}".`);
+      }
+    });
+    if (joints[0] === joints[1]) {
+      issues.error(`${path}.joints`, 'The two joints are the same, so they are always symmetric.');
+    }
+  }
+  if (!(isFiniteNumber(criterion.max_difference) && criterion.max_difference >= 0)) {
+    issues.error(`${path}.max_difference`, 'Must be zero or a positive number of degrees.');
+  }
+}
+
+function validateCriteria(
+  value: unknown,
+  path: string,
+  jointNames: Set<string>,
+  landmarkNames: Set<string>,
+  issues: IssueCollector
+) {
+  if (!isObject(value)) {
+    issues.error(path, 'Must be an object mapping joint or criterion names to criteria.');
+    return;
+  }
+
+  for (const [name, criterion] of Object.entries(value)) {
+    const criterionPath = `${path}.${name}`;
+    if (!isObject(criterion)) {
+      issues.error(criterionPath, 'Must be an object with a range and "feedback".');
+      continue;
+    }
+
+    const kind = criterion.kind ?? 'angle';
+    if (kind === 'angle') {
+      validateAngleCriterion(criterion, criterionPath, name, jointNames, issues);
+    } else if (kind === 'offset' || kind === 'distance') {
+      validatePositionCriterion(criterion, criterionPath, landmarkNames, issues);
+    } else if (kind === 'symmetry') {
+      validateSymmetryCriterion(criterion, criterionPath, jointNames, issues);
+    } else {
+      issues.error(`${criterionPath}.kind`, `Must be one of ${CRITERION_KINDS.join(', ')}.`);
+    }
+
+    if (criterion.priority !== undefined && !isFiniteNumber(criterion.priority)) {
+      issues.error(`${criterionPath}.priority`, 'Must be a number.');
+    }
+    if (criterion.weight !== undefined && (!isFiniteNumber(criterion.weight) || criterion.weight < 0)) {
+      issues.error(`${criterionPath}.weight`, 'Must be a number of 0 or more.');
+    }
+
+    // A symmetry criterion can only fail one way
+    const feedbackKeys = kind === 'symmetry' ? ['above_max'] : ['below_min', 'above_max'];
+    if (!isObject(criterion.feedback)) {
+      issues.error(`${criterionPath}.feedback`, `Must be an object with ${feedbackKeys.map(key => `"${key}"`).join(' and ')} messages.`);
+    } else {
+      for (const key of feedbackKeys) {
+        if (!isLocalizedText(criterion.feedback[key])) {
+          issues.error(`${criterionPath}.feedback.${key}`, 'Missing feedback message, or translations that are not all strings.');
+        }
+      }
+    }
+  }
+}
+
+function validateSmoothing(value: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(value)) {
+    issues.error(path, 'Must be an object with a "filter" type.');
+    return;
+  }
+  if (!FILTER_TYPES.includes(value.filter as string)) {
+    issues.error(`${path}.filter`, `Must be one of ${FILTER_TYPES.join(', ')}.`);
+  }
+  if (value.alpha !== undefined && !(isFiniteNumber(value.alpha) && value.alpha > 0 && value.alpha <= 1)) {
+    issues.error(`${path}.alpha`, 'Must be a number above 0 and at most 1.');
+  }
+  for (const key of ['min_cutoff', 'd_cutoff']) {
+    if (value[key] !== undefined && !(isFiniteNumber(value[key]) && (value[key] as number) > 0)) {
+      issues.error(`${path}.${key}`, 'Must be a positive frequency in Hz.');
+    }
+  }
+  if (value.beta !== undefined && !(isFiniteNumber(value.beta) && value.beta >= 0)) {
+    issues.error(`${path}.beta`, 'Must be zero or a positive number.');
+  }
+  const oneEuroKeys = ['min_cutoff', 'beta', 'd_cutoff'].filter(key => value[key] !== undefined);
+  if (value.filter === 'ema' && oneEuroKeys.length > 0) {
+    issues.warn(path, `${oneEuroKeys.join(', ')} only apply to the "one_euro" filter.`);
+  }
+  if (value.filter === 'one_euro' && value.alpha !== undefined) {
+    issues.warn(`${path}.alpha`, 'alpha only applies to the "ema" filter.');
+  }
+}
+
+function validatePose(
+  pose: unknown,
+  path: string,
+  jointNames: Set<string>,
+  landmarkNames: Set<string>,
+  issues: IssueCollector
+) {
+  if (!isObject(pose)) {
+    issues.error(path, 'Must be an object.');
+    return;
+  }
+
+  for (const key of ['image_path', 'mirror']) {
+    if (pose[key] !== undefined && typeof pose[key] !== 'string') {
+      issues.error(`${path}.${key}`, 'Must be a string.');
+    }
+  }
+  for (const key of ['display_name', 'description', 'half_rep_feedback']) {
+    if (pose[key] !== undefined && !isLocalizedText(pose[key])) {
+      issues.error(`${path}.${key}`, 'Must be a string, or an object of strings keyed by locale.');
+    }
+  }
+  if (pose.display_name === undefined) {
+    issues.warn(`${path}.display_name`, 'Missing; the pose name will be shown instead.');
+  }
+
+  if (pose.mode !== undefined && !POSE_MODES.includes(pose.mode as string)) {
+    issues.error(`${path}.mode`, `Must be one of ${POSE_MODES.join(', ')}.`);
+  }
+
+  if (pose.orientation !== undefined && !ORIENTATIONS.includes(pose.orientation as string)) {
+    issues.error(`${path}.orientation`, `Must be one of ${ORIENTATIONS.join(', ')}.`);
+  }
+
+  if (pose.smoothing !== undefined) {
+    validateSmoothing(pose.smoothing, `${path}.smoothing`, issues);
+  }
+  if (pose.hold_seconds !== undefined && !(isFiniteNumber(pose.hold_seconds) && pose.hold_seconds > 0)) {
+    issues.error(`${path}.hold_seconds`, 'Must be a positive number of seconds.');
+  }
+  if (pose.hold_seconds !== undefined && pose.mode === 'reps') {
+    issues.warn(`${path}.hold_seconds`, 'Ignored for poses in "reps" mode.');
+  }
+  if (pose.tolerance !== undefined && !(isFiniteNumber(pose.tolerance) && pose.tolerance >= 0)) {
+    issues.error(`${path}.tolerance`, 'Must be zero or a positive number of degrees.');
+  }
+  if (pose.position_tolerance !== undefined && !(isFiniteNumber(pose.position_tolerance) && pose.position_tolerance >= 0)) {
+    issues.error(`${path}.position_tolerance`, 'Must be zero or a positive number of body lengths.');
+  }
+  if (pose.hold_grace_seconds !== undefined && !(isFiniteNumber(pose.hold_grace_seconds) && pose.hold_grace_seconds >= 0)) {
+    issues.error(`${path}.hold_grace_seconds`, 'Must be zero or a positive number of seconds.');
+  }
+
+  validateCriteria(pose.criteria, `${path}.criteria`, jointNames, landmarkNames, issues);
+
+  if (pose.mode === 'reps') {
+    const keyframes = pose.keyframes;
+    if (!Array.isArray(keyframes) || keyframes.length < 2) {
+      issues.error(`${path}.keyframes`, 'A "reps" pose needs at least two keyframes.');
+    } else {
+      keyframes.forEach((keyframe, index) => {
+        const keyframePath = `${path}.keyframes[${index}]`;
+        if (!isObject(keyframe)) {
+          issues.error(keyframePath, 'Must be an object with "criteria".');
+          return;
+        }
+        if (keyframe.name !== undefined && typeof keyframe.name !== 'string') {
+          issues.error(`${keyframePath}.name`, 'Must be a string.');
+        }
+        validateCriteria(keyframe.criteria, `${keyframePath}.criteria`, jointNames, landmarkNames, issues);
+      });
+    }
+    if (pose.target_reps !== undefined &&
+        !(isFiniteNumber(pose.target_reps) && Number.isInteger(pose.target_reps) && pose.target_reps > 0)) {
+      issues.error(`${path}.target_reps`, 'Must be a positive whole number.');
+    }
+  } else {
+    if (pose.keyframes !== undefined || pose.target_reps !== undefined) {
+      issues.warn(path, 'Keyframes and target_reps are ignored unless mode is "reps".');
+    }
+    if (isObject(pose.criteria) && Object.keys(pose.criteria).length === 0) {
+      issues.warn(`${path}.criteria`, 'No criteria, so the hold starts as soon as the pose begins.');
+    }
+  }
+}
+
+function validateSequence(
+  sequence: unknown,
+  path: string,
+  poseNames: Set<string>,
+  usedPoses: Set<string>,
+  issues: IssueCollector
+) {
+  if (!Array.isArray(sequence)) {
+    issues.error(path, 'Must be an array of pose names, pose entries and rests.');
+    return;
+  }
+  if (!sequence.some(entry => typeof entry === 'string' || (isObject(entry) && entry.pose !== undefined))) {
+    issues.warn(path, 'The sequence has no poses, so the workout ends immediately.');
+  }
+  const validatePoseName = (poseName: unknown, entryPath: string) => {
+    if (typeof poseName !== 'string') {
+      issues.error(entryPath, 'Must be a pose name.');
+    } else if (!poseNames.has(poseName)) {
+      issues.error(entryPath, `No pose named "${poseName}".`);
+    } else {
+      usedPoses.add(poseName);
+    }
+  };
+  sequence.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (typeof entry === 'string') {
+      validatePoseName(entry, entryPath);
+      return;
+    }
+    if (!isObject(entry) || (entry.pose === undefined && entry.rest_seconds === undefined)) {
+      issues.error(entryPath, 'Must be a pose name, an object with a "pose", or an object with "rest_seconds".');
+      return;
+    }
+    if (entry.rest_seconds !== undefined && !(isFiniteNumber(entry.rest_seconds) && entry.rest_seconds >= 0)) {
+      issues.error(`${entryPath}.rest_seconds`, 'Must be a number of 0 or more.');
+    }
+    if (entry.pose === undefined) return;
+    validatePoseName(entry.pose, `${entryPath}.pose`);
+    if (entry.sets !== undefined && !(Number.isInteger(entry.sets) && (entry.sets as number) >= 1)) {
+      issues.error(`${entryPath}.sets`, 'Must be a whole number of 1 or more.');
+    }
+    if (entry.rest_seconds !== undefined && (entry.sets ?? 1) === 1) {
+      issues.warn(`${entryPath}.rest_seconds`, 'Only used between sets, and the pose has a single set.');
+    }
+  });
+}
+
+// rounds and round_rest_seconds, on a workout or at the top level
+function validateRounds(container: JsonObject, path: string, issues: IssueCollector) {
+  const prefix = path ? `${path}.` : '';
+  if (container.rounds !== undefined && !(Number.isInteger(container.rounds) && (container.rounds as number) >= 1)) {
+    issues.error(`${prefix}rounds`, 'Must be a whole number of 1 or more.');
+  }
+  if (container.round_rest_seconds !== undefined) {
+    if (!(isFiniteNumber(container.round_rest_seconds) && container.round_rest_seconds >= 0)) {
+      issues.error(`${prefix}round_rest_seconds`, 'Must be a number of 0 or more.');
+    } else if ((container.rounds ?? 1) === 1) {
+      issues.warn(`${prefix}round_rest_seconds`, 'Only used between rounds, and there is a single round.');
+    }
+  }
+}
+
+function validateWorkouts(
+  workouts: unknown,
+  poseNames: Set<string>,
+  usedPoses: Set<string>,
+  issues: IssueCollector
+) {
+  if (!isObject(workouts)) {
+    issues.error('workouts', 'Must be an object mapping workout ids to workouts.');
+    return;
+  }
+  if (Object.keys(workouts).length === 0) {
+    issues.warn('workouts', 'No workouts defined.');
+  }
+
+  for (const [workoutId, workout] of Object.entries(workouts)) {
+    const path = `workouts.${workoutId}`;
+    if (!isObject(workout)) {
+      issues.error(path, 'Must be an object with a "title" and a "sequence".');
+      continue;
+    }
+    if (typeof workout.title !== 'string') {
+      issues.error(`${path}.title`, 'Missing workout title.');
+    }
+    if (workout.description !== undefined && typeof workout.description !== 'string') {
+      issues.error(`${path}.description`, 'Must be a string.');
+    }
+    if (workout.estimated_duration_minutes !== undefined &&
+        !(isFiniteNumber(workout.estimated_duration_minutes) && workout.estimated_duration_minutes > 0)) {
+      issues.error(`${path}.estimated_duration_minutes`, 'Must be a positive number.');
+    }
+    validateSequence(workout.sequence, `${path}.sequence`, poseNames, usedPoses, issues);
+    validateRounds(workout, path, issues);
+  }
+}
+
+/**
+ * Validates a parsed exercise_config.json.
+ * Collects every problem instead of stopping at the first one, so authors can fix a file in one pass.
+ */
+export function validateExerciseConfig(data: unknown): ConfigValidationResult {
+  const issues = createIssueCollector();
+  if (!isObject(data)) {
+    issues.error('$', 'The config must be a JSON object.');
+    return { errors: issues.errors, warnings: issues.warnings };
+  }
+
+  if (data.angle_mode !== undefined && !ANGLE_MODES.includes(data.angle_mode as string)) {
+    issues.error('angle_mode', `Must be one of ${ANGLE_MODES.join(', ')}.`);
+  }
+
+  const virtualNames = validateVirtualLandmarks(data.virtual_landmarks, issues);
+  const landmarkNames = new Set([...POSE_LANDMARK_NAMES, ...virtualNames]);
+  const jointNames = validateJointDefinitions(data.joint_definitions, landmarkNames, issues);
+
+  const poseNames = new Set<string>();
+  if (!isObject(data.poses)) {
+    issues.error('poses', 'Must be an object mapping pose names to poses.');
+  } else {
+    const poses = data.poses;
+    Object.keys(poses).forEach(poseName => poseNames.add(poseName));
+    for (const [poseName, pose] of Object.entries(poses)) {
+      const errorCount = issues.errors.length;
+      validatePose(pose, `poses.${poseName}`, jointNames, landmarkNames, issues);
+      if (!isObject(pose) || typeof pose.mirror !== 'string') continue;
+
+      const mirrorPath = `poses.${poseName}.mirror`;
+      if (poseNames.has(pose.mirror)) {
+        issues.error(mirrorPath, `A pose named "${pose.mirror}" already exists.`);
+        continue;
+      }
+      poseNames.add(pose.mirror);
+      // The generated pose is only checked once its source is valid, so each problem is reported once
+      if (issues.errors.length > errorCount) continue;
+      const mirrored = mirrorPose(pose as unknown as PoseData, poseName);
+      if (JSON.stringify(mirrored.criteria) === JSON.stringify(pose.criteria)) {
+        issues.warn(mirrorPath, 'No criteria mention left or right, so the mirrored pose is identical.');
+      }
+      validatePose(mirrored, `poses.${pose.mirror} (mirror of ${poseName})`, jointNames, landmarkNames, issues);
+    }
+  }
+
+  const usedPoses = new Set<string>();
+  if (data.sequence === undefined && data.workouts === undefined) {
+    issues.error('sequence', 'The config needs a "sequence" or a "workouts" object.');
+  }
+  if (data.sequence !== undefined) {
+    validateSequence(data.sequence, 'sequence', poseNames, usedPoses, issues);
+    validateRounds(data, '', issues);
+  }
+  if (data.workouts !== undefined) {
+    validateWorkouts(data.workouts, poseNames, usedPoses, issues);
+  }
+
+  poseNames.forEach(poseName => {
+    if (!usedPoses.has(poseName)) issues.warn(`poses.${poseName}`, 'Pose is not used by any workout.');
+  });
+
+  return { errors: issues.errors, warnings: issues.warnings };
+}
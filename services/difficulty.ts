@@ -0,0 +1,21 @@
+import { Difficulty, PoseData } from '../types';
+import { DEFAULT_HOLD_SECONDS, DEFAULT_POSITION_TOLERANCE, DEFAULT_TOLERANCE, DIFFICULTY_LEVELS } from '../constants';
+
+export interface PoseTargets {
+  holdSeconds: number;
+  tolerance: number; // Degrees
+  positionTolerance: number; // Body lengths
+}
+
+/**
+ * Returns the hold time and tolerances for a pose at the given difficulty.
+ * The pose's own values (or the defaults) are scaled by the difficulty level.
+ */
+export function getPoseTargets(pose: PoseData | null | undefined, difficulty: Difficulty): PoseTargets {
+  const level = DIFFICULTY_LEVELS[difficulty];
+  return {
+    holdSeconds: (pose?.hold_seconds ?? DEFAULT_HOLD_SECONDS) * level.holdScale,
+    tolerance: (pose?.tolerance ?? DEFAULT_TOLERANCE) * level.toleranceScale,
+    positionTolerance: (pose?.position_tolerance ?? DEFAULT_POSITION_TOLERANCE) * level.toleranceScale,
+  };
+}
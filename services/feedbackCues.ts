@@ -0,0 +1,52 @@
+import { AngleDetail } from '../types';
+import { CUE_COOLDOWN_SECONDS, CUE_MIN_GAP_SECONDS, CUE_PERSIST_SECONDS, CUE_REPEAT_COOLDOWN_SECONDS } from '../constants';
+
+export interface CueState {
+  lastCue: string | null;
+  lastCueAtMs: number | null;
+  spokenAtMs: { [cue: string]: number };
+  failingSinceMs: { [cue: string]: number }; // When each current correction started failing
+}
+
+export const INITIAL_CUE_STATE: CueState = { lastCue: null, lastCueAtMs: null, spokenAtMs: {}, failingSinceMs: {} };
+
+/**
+ * Advances the spoken corrections by one frame.
+ * Picks the highest-priority failing correction that has failed long enough and is out of its cooldown,
+ * keeping criteria order for equal priorities. The same correction is not repeated back-to-back until a longer
+ * cooldown has passed. `resolved` lists corrections that stopped failing, so a pending cue for them can be dropped.
+ */
+export function advanceCues(
+  state: CueState,
+  angleDetails: AngleDetail[],
+  nowMs: number
+): { state: CueState; cue: string | null; resolved: string[] } {
+  const failing = angleDetails
+    .filter(detail => !detail.is_correct && detail.measured && detail.feedback)
+    .sort((a, b) => b.priority - a.priority);
+
+  const failingSinceMs: { [cue: string]: number } = {};
+  failing.forEach(detail => {
+    failingSinceMs[detail.feedback] = state.failingSinceMs[detail.feedback] ?? nowMs;
+  });
+  const resolved = Object.keys(state.failingSinceMs).filter(cue => !(cue in failingSinceMs));
+  const nextState = { ...state, failingSinceMs };
+
+  if (state.lastCueAtMs !== null && nowMs - state.lastCueAtMs < CUE_MIN_GAP_SECONDS * 1000) {
+    return { state: nextState, cue: null, resolved };
+  }
+
+  const cue = failing.map(detail => detail.feedback).find(text => {
+    if (nowMs - failingSinceMs[text] < CUE_PERSIST_SECONDS * 1000) return false;
+    const spokenAtMs = state.spokenAtMs[text];
+    const cooldownSeconds = text === state.lastCue ? CUE_REPEAT_COOLDOWN_SECONDS : CUE_COOLDOWN_SECONDS;
+    return spokenAtMs === undefined || nowMs - spokenAtMs >= cooldownSeconds * 1000;
+  });
+  if (!cue) return { state: nextState, cue: null, resolved };
+
+  return {
+    state: { ...nextState, lastCue: cue, lastCueAtMs: nowMs, spokenAtMs: { ...state.spokenAtMs, [cue]: nowMs } },
+    cue,
+    resolved,
+  };
+}
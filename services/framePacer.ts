@@ -0,0 +1,32 @@
+import { INFERENCE_LATENCY_SMOOTHING, INFERENCE_BUSY_FRACTION, MAX_FRAME_INTERVAL_MS } from '../constants';
+
+export interface FramePacerState {
+  latencyMs: number | null; // Running average of the time from sending a frame to getting its landmarks
+  lastSentMs: number | null;
+}
+
+export const INITIAL_FRAME_PACER: FramePacerState = { latencyMs: null, lastSentMs: null };
+
+/**
+ * Returns the minimum time between two frames sent for inference.
+ * Slow inference spaces the frames out, so the worker leaves room for rendering instead of always running.
+ */
+export function getFrameIntervalMs(state: FramePacerState): number {
+  if (state.latencyMs === null) return 0;
+  return Math.min(MAX_FRAME_INTERVAL_MS, state.latencyMs / INFERENCE_BUSY_FRACTION);
+}
+
+export function shouldSendFrame(state: FramePacerState, nowMs: number): boolean {
+  return state.lastSentMs === null || nowMs - state.lastSentMs >= getFrameIntervalMs(state);
+}
+
+export function markFrameSent(state: FramePacerState, nowMs: number): FramePacerState {
+  return { ...state, lastSentMs: nowMs };
+}
+
+export function recordInferenceLatency(state: FramePacerState, latencyMs: number): FramePacerState {
+  const latency = state.latencyMs === null
+    ? latencyMs
+    : state.latencyMs + INFERENCE_LATENCY_SMOOTHING * (latencyMs - state.latencyMs);
+  return { ...state, latencyMs: latency };
+}
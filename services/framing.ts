@@ -0,0 +1,93 @@
+import { ExerciseConfig, FramingGuidance, FramingRequirements, NormalizedLandmarkList, PoseCriteria, PoseData, PoseWorldLandmarks } from '../types';
+import { FRAMING_FACING_RATIO, FRAMING_MARGIN, FRAMING_MIN_TORSO_HEIGHT, POSE_LANDMARK_NAMES } from '../constants';
+import { isReferenceAxis } from './poseUtils';
+import { getTurnGuidance } from './orientation';
+
+const TORSO_LANDMARKS = ["LEFT_SHOULDER", "RIGHT_SHOULDER", "LEFT_HIP", "RIGHT_HIP"];
+
+const landmarkIndex = (name: string) => POSE_LANDMARK_NAMES.indexOf(name);
+
+// Landmark and joint names used by the criteria, before virtual landmarks are expanded
+function getCriteriaLandmarks(criteria: PoseCriteria, config: ExerciseConfig): string[] {
+  const jointLandmarks = (jointName: string) => {
+    const joint = config.joint_definitions[jointName];
+    return joint ? [joint.landmarks.A, joint.landmarks.B, joint.landmarks.C] : [];
+  };
+  return Object.entries(criteria).flatMap(([name, criterion]) => {
+    switch (criterion.kind) {
+      case "offset":
+        // Without normalize_by, positions are measured in torso lengths
+        return [criterion.landmark, criterion.reference, ...(criterion.normalize_by ?? TORSO_LANDMARKS)];
+      case "distance":
+        return [...criterion.landmarks, ...(criterion.normalize_by ?? TORSO_LANDMARKS)];
+      case "symmetry":
+        return criterion.joints.flatMap(jointLandmarks);
+      default:
+        return jointLandmarks(name);
+    }
+  });
+}
+
+/**
+ * Returns the MediaPipe landmarks the pose's criteria and keyframes read, with virtual landmarks replaced by their parts.
+ */
+export function getRequiredLandmarks(pose: PoseData, config: ExerciseConfig): string[] {
+  const virtualLandmarks = config.virtual_landmarks ?? {};
+  const names = [pose.criteria, ...(pose.keyframes ?? []).map(keyframe => keyframe.criteria)]
+    .flatMap(criteria => getCriteriaLandmarks(criteria, config))
+    .filter(name => !isReferenceAxis(name))
+    .flatMap(name => (virtualLandmarks[name] ?? virtualLandmarks[name.toUpperCase()])?.average ?? [name])
+    .map(name => name.toUpperCase())
+    .filter(name => landmarkIndex(name) !== -1);
+  return [...new Set(names)];
+}
+
+export function getFramingRequirements(pose: PoseData, config: ExerciseConfig): FramingRequirements {
+  return { landmarks: getRequiredLandmarks(pose, config), orientation: pose.orientation ?? null };
+}
+
+// Poses measured on one side of the body only are meant to be seen from that side
+const isOneSided = (required: string[]) =>
+  required.length > 0 && (required.every(name => name.startsWith("LEFT_")) || required.every(name => name.startsWith("RIGHT_")));
+
+/**
+ * Checks whether the required landmarks are in view and large enough to measure, and the user faces the required way.
+ * If not, returns what the user should do; null means the user is framed.
+ * MediaPipe estimates landmarks outside the image too, so their coordinates show which way the user is cut off.
+ * Left and right are the user's own, who sees a mirrored video.
+ */
+export function checkFraming(
+  landmarks: NormalizedLandmarkList | null,
+  worldLandmarks: PoseWorldLandmarks,
+  requirements: FramingRequirements
+): FramingGuidance | null {
+  if (!landmarks || landmarks.length === 0) return "step_into_view";
+  const required = requirements.landmarks;
+  // Turning first, since it changes which landmarks are in view
+  if (requirements.orientation) {
+    const turn = getTurnGuidance(requirements.orientation, landmarks, worldLandmarks);
+    if (turn) return turn;
+  }
+  if (required.length === 0) return null;
+
+  const points = required.map(name => landmarks[landmarkIndex(name)]).filter(point => point !== undefined);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const low = FRAMING_MARGIN;
+  const high = 1 - FRAMING_MARGIN;
+
+  // Cut off at the top or bottom, or too wide to fit, only stepping back helps
+  if (minY < low || maxY > high || maxX - minX > high - low) return "step_back";
+  // Image left is the user's right
+  if (minX < low) return "move_left";
+  if (maxX > high) return "move_right";
+
+  const [leftShoulder, rightShoulder, leftHip, rightHip] = TORSO_LANDMARKS.map(name => landmarks[landmarkIndex(name)]);
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return null;
+  const torsoHeight = Math.abs((leftHip.y + rightHip.y) / 2 - (leftShoulder.y + rightShoulder.y) / 2);
+  if (torsoHeight < FRAMING_MIN_TORSO_HEIGHT) return "step_closer";
+  const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
+  if (!requirements.orientation && isOneSided(required) && shoulderWidth > torsoHeight * FRAMING_FACING_RATIO) return "turn_sideways";
+  return null;
+}
@@ -0,0 +1,48 @@
+import { MAX_FRAME_GAP_MS } from '../constants';
+
+export interface HoldState {
+  elapsedMs: number; // Time the pose has been held correctly
+  dropoutStartMs: number | null; // When the pose was last lost, null while it is held
+  lastTimestampMs: number | null;
+}
+
+export const INITIAL_HOLD_STATE: HoldState = { elapsedMs: 0, dropoutStartMs: null, lastTimestampMs: null };
+
+/**
+ * Advances the hold by one frame.
+ * While the pose is correct the elapsed time grows. When it is lost, the hold is paused for up to
+ * graceMs and only reset once the dropout lasts longer than that.
+ * Timestamps that go backwards or skip ahead (e.g. seeking a video) restart the hold.
+ */
+export function advanceHold(state: HoldState, isCorrect: boolean, timestampMs: number, graceMs: number): HoldState {
+  const { lastTimestampMs } = state;
+  const timeJumped = lastTimestampMs !== null &&
+    (timestampMs < lastTimestampMs || timestampMs - lastTimestampMs > MAX_FRAME_GAP_MS);
+  if (timeJumped) {
+    return { elapsedMs: 0, dropoutStartMs: isCorrect ? null : timestampMs, lastTimestampMs: timestampMs };
+  }
+
+  if (isCorrect) {
+    // Only time between two correct frames counts towards the hold
+    const wasHolding = state.dropoutStartMs === null && lastTimestampMs !== null;
+    return {
+      elapsedMs: state.elapsedMs + (wasHolding ? timestampMs - lastTimestampMs : 0),
+      dropoutStartMs: null,
+      lastTimestampMs: timestampMs,
+    };
+  }
+
+  const dropoutStartMs = state.dropoutStartMs ?? timestampMs;
+  return {
+    elapsedMs: timestampMs - dropoutStartMs > graceMs ? 0 : state.elapsedMs,
+    dropoutStartMs,
+    lastTimestampMs: timestampMs,
+  };
+}
+
+/**
+ * Continues a hold after the workout was paused: the paused time is neither counted nor treated as a dropout.
+ */
+export function resumeHold(state: HoldState): HoldState {
+  return { ...state, dropoutStartMs: null, lastTimestampMs: null };
+}
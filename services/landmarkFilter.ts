@@ -0,0 +1,86 @@
+import { SmoothingSettings } from '../types';
+import { MAX_FRAME_GAP_MS } from '../constants';
+
+interface Point3 {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface LandmarkFilter {
+  apply: <T extends Point3>(landmarks: T[], timestampMs: number) => T[];
+  reset: () => void;
+}
+
+interface ChannelState {
+  value: number;
+  derivative: number;
+}
+
+const smoothingFactor = (cutoffHz: number, dtSeconds: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dtSeconds);
+};
+
+/**
+ * Creates a stateful filter for one landmark stream.
+ * "ema" blends each frame with the previous output using a fixed weight.
+ * "one_euro" adapts its cutoff to the speed of movement: still joints are smoothed strongly, fast ones lag little.
+ * The filter restarts from the raw landmarks whenever timestamps go backwards or skip ahead (e.g. after seeking).
+ */
+export function createLandmarkFilter(settings: SmoothingSettings): LandmarkFilter {
+  const { filter, alpha = 0.5, min_cutoff = 1.5, beta = 5, d_cutoff = 1 } = settings;
+  let channels: ChannelState[] = [];
+  let lastTimestampMs: number | null = null;
+
+  const reset = () => {
+    channels = [];
+    lastTimestampMs = null;
+  };
+
+  const filterChannel = (index: number, raw: number, dtSeconds: number): number => {
+    const previous = channels[index];
+    if (!previous) {
+      channels[index] = { value: raw, derivative: 0 };
+      return raw;
+    }
+    if (filter === "ema") {
+      const value = alpha * raw + (1 - alpha) * previous.value;
+      channels[index] = { value, derivative: 0 };
+      return value;
+    }
+    // One-Euro filter
+    const rawDerivative = (raw - previous.value) / dtSeconds;
+    const derivativeAlpha = smoothingFactor(d_cutoff, dtSeconds);
+    const derivative = derivativeAlpha * rawDerivative + (1 - derivativeAlpha) * previous.derivative;
+    const cutoff = min_cutoff + beta * Math.abs(derivative);
+    const valueAlpha = smoothingFactor(cutoff, dtSeconds);
+    const value = valueAlpha * raw + (1 - valueAlpha) * previous.value;
+    channels[index] = { value, derivative };
+    return value;
+  };
+
+  const apply = <T extends Point3>(landmarks: T[], timestampMs: number): T[] => {
+    if (filter === "none") return landmarks;
+
+    const dtMs = lastTimestampMs === null ? 0 : timestampMs - lastTimestampMs;
+    if (lastTimestampMs !== null && (dtMs < 0 || dtMs > MAX_FRAME_GAP_MS)) {
+      channels = [];
+    }
+    lastTimestampMs = timestampMs;
+    const dtSeconds = Math.max(dtMs, 1) / 1000; // Guards against duplicate timestamps
+
+    return landmarks.map((landmark, landmarkIndex) => {
+      const base = landmarkIndex * 3;
+      const smoothed = {
+        ...landmark,
+        x: filterChannel(base, landmark.x, dtSeconds),
+        y: filterChannel(base + 1, landmark.y, dtSeconds),
+      };
+      if (landmark.z !== undefined) smoothed.z = filterChannel(base + 2, landmark.z, dtSeconds);
+      return smoothed;
+    });
+  };
+
+  return { apply, reset };
+}
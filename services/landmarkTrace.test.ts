@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PoseFrame } from '../types';
+import { createManualClock } from './clock';
+import { TRACE_FORMAT_VERSION, createTrace, parseTrace, replayTrace } from './landmarkTrace';
+
+const frame = (timestampMs: number): PoseFrame =>
+  ({ landmarks: [{ x: 0.5, y: 0.5, z: 0, visibility: 1 }], worldLandmarks: null, frameWidth: 640, frameHeight: 480, timestampMs });
+
+describe("parseTrace", () => {
+  it("reads back a created trace", () => {
+    const trace = createTrace([frame(0), frame(40)], "Camera");
+    expect(parseTrace(JSON.stringify(trace))).toEqual(trace);
+  });
+
+  it("fills in world landmarks missing from old traces", () => {
+    const { worldLandmarks: _, ...oldFrame } = frame(0);
+    const parsed = parseTrace(JSON.stringify({ version: TRACE_FORMAT_VERSION, frames: [oldFrame] }));
+    expect(parsed.frames[0].worldLandmarks).toBeNull();
+    expect(parsed.source).toBe("");
+  });
+
+  it.each([
+    ["not JSON", "{", /not valid JSON/],
+    ["not an object", "[]", /must be an object/],
+    ["another version", JSON.stringify({ version: TRACE_FORMAT_VERSION + 1, frames: [] }), /Unsupported trace version/],
+    ["a frame without a size", JSON.stringify({ version: TRACE_FORMAT_VERSION, frames: [frame(0), { ...frame(40), frameWidth: "640" }] }), /^Frame 1 /],
+    ["a frame with an infinite timestamp", `{"version":${TRACE_FORMAT_VERSION},"frames":[{"landmarks":null,"frameWidth":1,"frameHeight":1,"timestampMs":1e999}]}`, /^Frame 0 /],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseTrace(text)).toThrow(message);
+  });
+});
+
+describe("replayTrace", () => {
+  it("delivers every frame in order, with the clock at each frame's recorded time", () => {
+    const clock = createManualClock(1000);
+    const seen: [number, number][] = [];
+    replayTrace(createTrace([frame(5000), frame(5040), frame(5100)], "Camera"), ({ timestampMs }) => seen.push([timestampMs, clock.now()]), clock);
+    expect(seen).toEqual([[5000, 1000], [5040, 1040], [5100, 1100]]);
+  });
+});
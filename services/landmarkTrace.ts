@@ -0,0 +1,96 @@
+import { PoseFrame } from '../types';
+import { ManualClock } from './clock';
+
+export const TRACE_FORMAT_VERSION = 1;
+
+export interface LandmarkTrace {
+  version: number;
+  recorded_at: string; // ISO date
+  source: string; // Camera label or video file name, for reference only
+  frames: PoseFrame[]; // In recording order
+}
+
+export function createTrace(frames: PoseFrame[], source: string): LandmarkTrace {
+  return {
+    version: TRACE_FORMAT_VERSION,
+    recorded_at: new Date().toISOString(),
+    source,
+    frames,
+  };
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks the fields playback relies on; landmark coordinates are taken as recorded
+const isPoseFrame = (value: unknown): value is PoseFrame =>
+  isObject(value) &&
+  isFiniteNumber(value.timestampMs) &&
+  isFiniteNumber(value.frameWidth) &&
+  isFiniteNumber(value.frameHeight) &&
+  (value.landmarks === null || Array.isArray(value.landmarks)) &&
+  (value.people === undefined || Array.isArray(value.people));
+
+/**
+ * Parses a trace file. Throws an Error describing the first problem if the file is not a valid trace.
+ */
+export function parseTrace(text: string): LandmarkTrace {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Trace is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(data) || !Array.isArray(data.frames)) {
+    throw new Error('Trace must be an object with a "frames" array.');
+  }
+  if (data.version !== TRACE_FORMAT_VERSION) {
+    throw new Error(`Unsupported trace version ${data.version}, expected ${TRACE_FORMAT_VERSION}.`);
+  }
+  const frames: unknown[] = data.frames;
+  const invalidIndex = frames.findIndex(frame => !isPoseFrame(frame));
+  if (invalidIndex !== -1) {
+    throw new Error(`Frame ${invalidIndex} is missing landmarks, frame size or timestamp.`);
+  }
+  return {
+    version: TRACE_FORMAT_VERSION,
+    recorded_at: String(data.recorded_at ?? ''),
+    source: String(data.source ?? ''),
+    frames: frames.filter(isPoseFrame).map(frame => ({ ...frame, worldLandmarks: frame.worldLandmarks ?? null })),
+  };
+}
+
+export function downloadTrace(trace: LandmarkTrace, fileName: string) {
+  const blob = new Blob([JSON.stringify(trace)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Safari and some Firefox versions cancel the download if the URL is revoked in the same task as the click
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Returns the recorded time between a frame and the one before it, 0 for the first frame.
+ */
+export function getFrameGapMs(frames: PoseFrame[], index: number): number {
+  return index > 0 ? Math.max(0, frames[index].timestampMs - frames[index - 1].timestampMs) : 0;
+}
+
+/**
+ * Feeds every frame of a trace to a callback synchronously, in order.
+ * A manual clock, if given, is moved on by the recorded time before each frame, so a workout driven by it sees the
+ * same timing as when the trace was recorded and gives the same result on every run.
+ */
+export function replayTrace(trace: LandmarkTrace, onFrame: (frame: PoseFrame, index: number) => void, clock?: ManualClock) {
+  trace.frames.forEach((frame, index) => {
+    clock?.advance(getFrameGapMs(trace.frames, index));
+    onFrame(frame, index);
+  });
+}
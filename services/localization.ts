@@ -0,0 +1,47 @@
+import { LocalizedText, PoseData } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+
+const languageOf = (locale: string) => locale.split('-')[0].toLowerCase();
+
+/**
+ * Picks the text for a locale, falling back to the same language in another region (e.g. "de" for "de-AT"),
+ * then to the default locale, then to any translation.
+ */
+export function localize(text: LocalizedText | undefined, locale: string): string {
+  if (text === undefined) return "";
+  if (typeof text === 'string') return text;
+  if (text[locale] !== undefined) return text[locale];
+  const language = languageOf(locale);
+  const sameLanguage = Object.keys(text).find(key => languageOf(key) === language);
+  if (sameLanguage) return text[sameLanguage];
+  return text[DEFAULT_LOCALE] ?? Object.values(text)[0] ?? "";
+}
+
+/**
+ * Applies a transformation to every translation of a text.
+ */
+export function mapLocalizedText(text: LocalizedText, transform: (value: string) => string): LocalizedText {
+  if (typeof text === 'string') return transform(text);
+  const mapped: { [locale: string]: string } = {};
+  for (const locale in text) {
+    mapped[locale] = transform(text[locale]);
+  }
+  return mapped;
+}
+
+export function isSameLanguage(a: string, b: string): boolean {
+  return languageOf(a) === languageOf(b);
+}
+
+/**
+ * Lists every locale the poses have a display name or description in, plus the default locale.
+ */
+export function getPoseLocales(poses: { [poseName: string]: PoseData }): string[] {
+  const locales = new Set<string>([DEFAULT_LOCALE]);
+  for (const pose of Object.values(poses)) {
+    for (const text of [pose.display_name, pose.description]) {
+      if (text !== undefined && typeof text !== 'string') Object.keys(text).forEach(locale => locales.add(locale));
+    }
+  }
+  return Array.from(locales).sort();
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getMessages } from './messages';
+
+describe("getMessages", () => {
+  it("picks the messages of the locale", () => {
+    expect(getMessages("de").paused).toBe("Pausiert.");
+    expect(getMessages("de").rest(15, "T-Haltung")).toBe("15 Sekunden Pause. Als Nächstes: T-Haltung.");
+  });
+
+  it("falls back to the same language in another region, then to English", () => {
+    expect(getMessages("de-AT").paused).toBe("Pausiert.");
+    expect(getMessages("fr").paused).toBe("Paused.");
+    expect(getMessages("en-GB").rest(15, "")).toBe("Rest for 15 seconds.");
+  });
+});
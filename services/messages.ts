@@ -0,0 +1,94 @@
+import { AppMessages } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { isSameLanguage } from './localization';
+
+const EN: AppMessages = {
+  nextPose: (displayName, description) => `Next: ${displayName}. ${description}`,
+  defaultDescription: "Get ready for the next pose.",
+  rest: (seconds, upNext) => upNext ? `Rest for ${seconds} seconds. Up next: ${upNext}.` : `Rest for ${seconds} seconds.`,
+  workoutCompleted: "Workout completed! Well done.",
+  workoutCompleteTitle: "Workout Complete!",
+  getIntoPosition: "Get into position.",
+  startReps: displayName => `Start ${displayName}.`,
+  startHold: displayName => `Hold ${displayName}.`,
+  poseCompleted: "Great!",
+  paused: "Paused.",
+  resuming: "Resuming.",
+  halfRep: "Half rep! Go through the full range of motion.",
+  personDone: personId => `Number ${personId} done.`,
+  cannotSeeAnyone: "Cannot see anyone. Step into view.",
+  waitingFor: personIds => `Waiting for ${personIds.map(id => `#${id}`).join(', ')}`,
+  cannotSeeYou: "Cannot see you clearly. Adjust your position.",
+  framing: {
+    step_into_view: "Step into view of the camera.",
+    step_back: "Step back so your whole body is in view.",
+    step_closer: "Step closer to the camera.",
+    move_left: "Move a little to your left.",
+    move_right: "Move a little to your right.",
+    turn_sideways: "Turn sideways to the camera.",
+    face_camera: "Turn to face the camera.",
+    turn_left_side: "Turn so your left side faces the camera.",
+    turn_right_side: "Turn so your right side faces the camera.",
+    turn_back: "Turn your back to the camera.",
+  },
+  notVisible: name => `${name} not clearly visible.`,
+  pointsNotFound: name => `${name} points not found on body.`,
+  landmarkDefinitionError: name => `Landmark definition error for ${name}.`,
+  voicePreview: "This is how your coach will sound.",
+  authoringCountdown: seconds => `Get into position. Sampling starts in ${seconds} seconds.`,
+  authoringSampling: "Hold it.",
+  authoringDone: "Got it.",
+  proposedBelowMin: jointLabel => `Open up your ${jointLabel} more.`,
+  proposedAboveMax: jointLabel => `Close your ${jointLabel} a little.`,
+};
+
+const DE: AppMessages = {
+  nextPose: (displayName, description) => `Als Nächstes: ${displayName}. ${description}`,
+  defaultDescription: "Mach dich bereit für die nächste Übung.",
+  rest: (seconds, upNext) => upNext ? `${seconds} Sekunden Pause. Als Nächstes: ${upNext}.` : `${seconds} Sekunden Pause.`,
+  workoutCompleted: "Training abgeschlossen! Gut gemacht.",
+  workoutCompleteTitle: "Training abgeschlossen!",
+  getIntoPosition: "Geh in Position.",
+  startReps: displayName => `Los geht's: ${displayName}.`,
+  startHold: displayName => `Halte ${displayName}.`,
+  poseCompleted: "Super!",
+  paused: "Pausiert.",
+  resuming: "Weiter geht's.",
+  halfRep: "Halbe Wiederholung! Geh die ganze Bewegung durch.",
+  personDone: personId => `Nummer ${personId} fertig.`,
+  cannotSeeAnyone: "Niemand zu sehen. Tritt ins Bild.",
+  waitingFor: personIds => `Warte auf ${personIds.map(id => `#${id}`).join(', ')}`,
+  cannotSeeYou: "Ich kann dich nicht gut sehen. Ändere deine Position.",
+  framing: {
+    step_into_view: "Tritt ins Bild der Kamera.",
+    step_back: "Geh einen Schritt zurück, damit dein ganzer Körper zu sehen ist.",
+    step_closer: "Komm näher an die Kamera.",
+    move_left: "Geh ein Stück nach links.",
+    move_right: "Geh ein Stück nach rechts.",
+    turn_sideways: "Dreh dich seitlich zur Kamera.",
+    face_camera: "Dreh dich zur Kamera.",
+    turn_left_side: "Dreh deine linke Seite zur Kamera.",
+    turn_right_side: "Dreh deine rechte Seite zur Kamera.",
+    turn_back: "Dreh der Kamera den Rücken zu.",
+  },
+  notVisible: name => `${name} nicht gut sichtbar.`,
+  pointsNotFound: name => `Punkte für ${name} nicht am Körper gefunden.`,
+  landmarkDefinitionError: name => `Fehler in der Landmarkendefinition von ${name}.`,
+  voicePreview: "So klingt dein Coach.",
+  authoringCountdown: seconds => `Geh in Position. Die Aufnahme beginnt in ${seconds} Sekunden.`,
+  authoringSampling: "Halten.",
+  authoringDone: "Fertig.",
+  proposedBelowMin: jointLabel => `${jointLabel} weiter öffnen.`,
+  proposedAboveMax: jointLabel => `${jointLabel} etwas schließen.`,
+};
+
+// Keyed by locale; a locale without an entry gets the same language in another region, then English
+const MESSAGES: { [locale: string]: AppMessages } = { en: EN, de: DE };
+
+/**
+ * Picks the app's own messages for a locale, falling back like localize does.
+ */
+export function getMessages(locale: string): AppMessages {
+  const sameLanguage = Object.keys(MESSAGES).find(key => isSameLanguage(key, locale));
+  return MESSAGES[locale] ?? (sameLanguage ? MESSAGES[sameLanguage] : MESSAGES[DEFAULT_LOCALE]);
+}
@@ -0,0 +1,47 @@
+import { BodyOrientation, FramingGuidance, NormalizedLandmarkList, PoseWorldLandmarks } from '../types';
+import { FRAMING_FACING_RATIO, ORIENTATION_SIDE_RATIO, POSE_LANDMARK_NAMES } from '../constants';
+
+const [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP] =
+  ["LEFT_SHOULDER", "RIGHT_SHOULDER", "LEFT_HIP", "RIGHT_HIP"].map(name => POSE_LANDMARK_NAMES.indexOf(name));
+
+const TURN_GUIDANCE: Record<BodyOrientation, FramingGuidance> = {
+  front: "face_camera",
+  left_side: "turn_left_side",
+  right_side: "turn_right_side",
+  back: "turn_back",
+};
+
+/**
+ * Estimates which way the user faces from the shoulders.
+ * Facing the camera or away from it, the shoulders are at least half a torso height apart on screen, and their
+ * order tells which: the left shoulder is on the image's right when facing the camera. Side-on, they nearly overlap,
+ * and the one nearer the camera (smaller z) gives the side. Returns null when the user is turned in between.
+ */
+export function estimateOrientation(landmarks: NormalizedLandmarkList, worldLandmarks: PoseWorldLandmarks): BodyOrientation | null {
+  const leftShoulder = landmarks[LEFT_SHOULDER];
+  const rightShoulder = landmarks[RIGHT_SHOULDER];
+  const leftHip = landmarks[LEFT_HIP];
+  const rightHip = landmarks[RIGHT_HIP];
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return null;
+  const torsoHeight = Math.abs((leftHip.y + rightHip.y) / 2 - (leftShoulder.y + rightShoulder.y) / 2);
+  if (torsoHeight === 0) return null;
+
+  const ratio = Math.abs(leftShoulder.x - rightShoulder.x) / torsoHeight;
+  if (ratio >= FRAMING_FACING_RATIO) return leftShoulder.x > rightShoulder.x ? "front" : "back";
+  if (ratio > ORIENTATION_SIDE_RATIO) return null;
+  // World landmarks measure depth in meters, which is steadier than the image-relative z
+  const leftZ = worldLandmarks?.[LEFT_SHOULDER]?.z ?? leftShoulder.z ?? 0;
+  const rightZ = worldLandmarks?.[RIGHT_SHOULDER]?.z ?? rightShoulder.z ?? 0;
+  return leftZ < rightZ ? "left_side" : "right_side";
+}
+
+/**
+ * Returns how the user should turn to face the required way, or null if they already do.
+ */
+export function getTurnGuidance(
+  required: BodyOrientation,
+  landmarks: NormalizedLandmarkList,
+  worldLandmarks: PoseWorldLandmarks
+): FramingGuidance | null {
+  return estimateOrientation(landmarks, worldLandmarks) === required ? null : TURN_GUIDANCE[required];
+}
@@ -0,0 +1,150 @@
+import { AngleDetail, FramingStatus, NormalizedLandmarkList, ParticipantProgress, TrackedPerson } from '../types';
+import { COLOR_CORRECT, COLOR_LANDMARK, COLOR_TEXT, COLOR_TEXT_BG, COLOR_PROGRESS_BAR_BG, COLOR_PROGRESS_BAR_FG, FRAMING_MARGIN, PERSON_BADGE_BAR_WIDTH } from '../constants';
+
+const drawDot = (canvasCtx: CanvasRenderingContext2D, point: { x: number; y: number }, radius: number, color: string) => {
+  canvasCtx.beginPath();
+  canvasCtx.arc(point.x, point.y, radius, 0, 2 * Math.PI);
+  canvasCtx.fillStyle = color;
+  canvasCtx.fill();
+};
+
+/**
+ * Draws the measured criteria. Expects the context to already be mirrored like the video.
+ * Angles are lines through their three points with a dot on the vertex.
+ * Offsets are a grey guide through the reference point and a line from it to the landmark.
+ * Distances are a dashed line between the two landmarks, and symmetry criteria one between the two joints.
+ */
+export function drawAngleDetails(canvasCtx: CanvasRenderingContext2D, angleDetails: AngleDetail[]) {
+  angleDetails.forEach(detail => {
+    if (!detail.measured) return;
+    canvasCtx.strokeStyle = detail.color;
+    canvasCtx.lineWidth = 3;
+
+    if (detail.kind === "offset") {
+      canvasCtx.beginPath();
+      canvasCtx.moveTo(detail.p2.x, detail.p2.y);
+      canvasCtx.lineTo(detail.p3.x, detail.p3.y);
+      canvasCtx.strokeStyle = COLOR_LANDMARK;
+      canvasCtx.lineWidth = 1;
+      canvasCtx.stroke();
+
+      canvasCtx.beginPath();
+      canvasCtx.moveTo(detail.p3.x, detail.p3.y);
+      canvasCtx.lineTo(detail.p1.x, detail.p1.y);
+      canvasCtx.strokeStyle = detail.color;
+      canvasCtx.lineWidth = 3;
+      canvasCtx.stroke();
+      drawDot(canvasCtx, detail.p2, 4, COLOR_LANDMARK);
+      drawDot(canvasCtx, detail.p1, 6, detail.color);
+      return;
+    }
+
+    if (detail.kind === "distance" || detail.kind === "symmetry") {
+      canvasCtx.setLineDash([8, 6]);
+      canvasCtx.beginPath();
+      canvasCtx.moveTo(detail.p1.x, detail.p1.y);
+      canvasCtx.lineTo(detail.p2.x, detail.p2.y);
+      canvasCtx.stroke();
+      canvasCtx.setLineDash([]);
+      drawDot(canvasCtx, detail.p1, 6, detail.color);
+      drawDot(canvasCtx, detail.p2, 6, detail.color);
+      return;
+    }
+
+    canvasCtx.beginPath();
+    canvasCtx.moveTo(detail.p1.x, detail.p1.y);
+    canvasCtx.lineTo(detail.p2.x, detail.p2.y);
+    canvasCtx.lineTo(detail.p3.x, detail.p3.y);
+    canvasCtx.stroke();
+    drawDot(canvasCtx, detail.p2, 6, detail.color);
+  });
+}
+
+/**
+ * Draws every landmark as a dot, for use where MediaPipe's DrawingUtils is not available.
+ */
+export function drawLandmarkPoints(
+  canvasCtx: CanvasRenderingContext2D,
+  landmarks: NormalizedLandmarkList,
+  frameW: number,
+  frameH: number
+) {
+  canvasCtx.fillStyle = COLOR_LANDMARK;
+  landmarks.forEach(landmark => {
+    if (landmark.visibility !== undefined && landmark.visibility < 0.3) return;
+    canvasCtx.beginPath();
+    canvasCtx.arc(landmark.x * frameW, landmark.y * frameH, 3, 0, 2 * Math.PI);
+    canvasCtx.fill();
+  });
+}
+
+/**
+ * Labels every person with their id above their head, with their hold bar in group mode.
+ * Expects an unmirrored context, so the text reads normally; positions are mirrored here to match the video.
+ */
+export function drawPersonBadges(
+  canvasCtx: CanvasRenderingContext2D,
+  people: TrackedPerson[],
+  participants: ParticipantProgress[],
+  focusedPersonId: number | null,
+  frameW: number,
+  frameH: number
+) {
+  canvasCtx.font = 'bold 16px sans-serif';
+  canvasCtx.textAlign = 'center';
+  canvasCtx.textBaseline = 'bottom';
+  people.forEach(person => {
+    if (person.landmarks.length === 0) return;
+    const xs = person.landmarks.map(landmark => landmark.x);
+    const x = (1 - (Math.min(...xs) + Math.max(...xs)) / 2) * frameW;
+    const top = Math.max(Math.min(...person.landmarks.map(landmark => landmark.y)) * frameH - 12, 30);
+    const participant = participants.find(entry => entry.personId === person.id);
+
+    const label = participant?.completed ? `#${person.id} ✓` : `#${person.id}`;
+    const labelWidth = canvasCtx.measureText(label).width + 12;
+    canvasCtx.fillStyle = person.id === focusedPersonId ? COLOR_PROGRESS_BAR_FG : COLOR_TEXT_BG;
+    canvasCtx.fillRect(x - labelWidth / 2, top - 22, labelWidth, 22);
+    canvasCtx.fillStyle = COLOR_TEXT;
+    canvasCtx.fillText(label, x, top - 3);
+
+    if (!participant) return;
+    const barLeft = x - PERSON_BADGE_BAR_WIDTH / 2;
+    canvasCtx.fillStyle = COLOR_PROGRESS_BAR_BG;
+    canvasCtx.fillRect(barLeft, top + 2, PERSON_BADGE_BAR_WIDTH, 8);
+    canvasCtx.fillStyle = COLOR_PROGRESS_BAR_FG;
+    canvasCtx.fillRect(barLeft, top + 2, PERSON_BADGE_BAR_WIDTH * Math.min(participant.progress, 1), 8);
+  });
+}
+
+/**
+ * Draws a dashed figure showing where to stand during the framing check; it turns green once the user is framed.
+ * The figure is symmetric, so it doesn't matter whether the context is mirrored.
+ */
+export function drawFramingTarget(canvasCtx: CanvasRenderingContext2D, framing: FramingStatus, frameW: number, frameH: number) {
+  const top = frameH * FRAMING_MARGIN;
+  const height = frameH * (1 - 2 * FRAMING_MARGIN);
+  const x = frameW / 2;
+  const unit = height / 8; // Roughly one head height
+  const neckY = top + unit * 1.2;
+  const hipY = top + unit * 4;
+
+  canvasCtx.save();
+  canvasCtx.strokeStyle = framing.guidance === null ? COLOR_CORRECT : COLOR_LANDMARK;
+  canvasCtx.lineWidth = 4;
+  canvasCtx.setLineDash([12, 10]);
+  canvasCtx.beginPath();
+  canvasCtx.arc(x, top + unit * 0.6, unit * 0.6, 0, 2 * Math.PI);
+  canvasCtx.moveTo(x, neckY);
+  canvasCtx.lineTo(x, hipY);
+  // Arms hanging slightly out from the shoulders
+  canvasCtx.moveTo(x - unit * 1.8, hipY);
+  canvasCtx.lineTo(x - unit, neckY + unit * 0.3);
+  canvasCtx.lineTo(x + unit, neckY + unit * 0.3);
+  canvasCtx.lineTo(x + unit * 1.8, hipY);
+  // Legs from the hips to the feet
+  canvasCtx.moveTo(x - unit, top + height);
+  canvasCtx.lineTo(x, hipY);
+  canvasCtx.lineTo(x + unit, top + height);
+  canvasCtx.stroke();
+  canvasCtx.restore();
+}
@@ -0,0 +1,102 @@
+import { NormalizedLandmarkList, PoseFrame, TrackedPerson, WorldLandmarkList } from '../types';
+import { PERSON_MATCH_MAX_DISTANCE, PERSON_TRACK_TIMEOUT_MS, POSE_LANDMARK_NAMES } from '../constants';
+
+interface PersonTrack {
+  id: number;
+  center: { x: number; y: number };
+  lastSeenMs: number;
+}
+
+export interface PersonTrackerState {
+  tracks: PersonTrack[];
+  nextId: number;
+}
+
+export const INITIAL_PERSON_TRACKER: PersonTrackerState = { tracks: [], nextId: 1 };
+
+const TORSO_INDICES = ["LEFT_SHOULDER", "RIGHT_SHOULDER", "LEFT_HIP", "RIGHT_HIP"].map(name => POSE_LANDMARK_NAMES.indexOf(name));
+
+// The middle of the torso, which moves less than the limbs during an exercise
+const getPersonCenter = (landmarks: NormalizedLandmarkList) => {
+  const torso = TORSO_INDICES.map(index => landmarks[index]).filter(landmark => landmark !== undefined);
+  const points = torso.length > 0 ? torso : landmarks;
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+};
+
+/**
+ * Returns the area of the person's bounding box as a share of the frame; whoever is closest to the camera is largest.
+ */
+export function getPersonSize(landmarks: NormalizedLandmarkList): number {
+  if (landmarks.length === 0) return 0;
+  const xs = landmarks.map(landmark => landmark.x);
+  const ys = landmarks.map(landmark => landmark.y);
+  return (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+}
+
+/**
+ * Assigns ids to the poses of one frame.
+ * Each pose keeps the id of the nearest track from earlier frames, closest pairs first, if it moved less than
+ * PERSON_MATCH_MAX_DISTANCE. Other poses get new ids, and tracks unseen for PERSON_TRACK_TIMEOUT_MS are dropped.
+ * People are returned in id order, so the order on screen doesn't change when someone moves.
+ */
+export function advancePersonTracker(
+  state: PersonTrackerState,
+  poses: NormalizedLandmarkList[],
+  worldPoses: WorldLandmarkList[],
+  timestampMs: number
+): { state: PersonTrackerState; people: TrackedPerson[] } {
+  // Seeking a video backwards makes old tracks look like they were seen in the future
+  const liveTracks = state.tracks.filter(track =>
+    timestampMs >= track.lastSeenMs && timestampMs - track.lastSeenMs <= PERSON_TRACK_TIMEOUT_MS
+  );
+  const centers = poses.map(getPersonCenter);
+
+  const pairs: { trackIndex: number; poseIndex: number; distance: number }[] = [];
+  liveTracks.forEach((track, trackIndex) => centers.forEach((center, poseIndex) => {
+    const distance = Math.hypot(center.x - track.center.x, center.y - track.center.y);
+    if (distance <= PERSON_MATCH_MAX_DISTANCE) pairs.push({ trackIndex, poseIndex, distance });
+  }));
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const poseIds: (number | null)[] = poses.map(() => null);
+  const matchedTracks = new Set<number>();
+  pairs.forEach(({ trackIndex, poseIndex }) => {
+    if (matchedTracks.has(trackIndex) || poseIds[poseIndex] !== null) return;
+    matchedTracks.add(trackIndex);
+    poseIds[poseIndex] = liveTracks[trackIndex].id;
+  });
+
+  let nextId = state.nextId;
+  const ids = poseIds.map(id => id ?? nextId++);
+  const seenTracks = ids.map((id, poseIndex) => ({ id, center: centers[poseIndex], lastSeenMs: timestampMs }));
+  const unseenTracks = liveTracks.filter((_, trackIndex) => !matchedTracks.has(trackIndex));
+
+  const people = poses
+    .map((landmarks, poseIndex) => ({ id: ids[poseIndex], landmarks, worldLandmarks: worldPoses[poseIndex] ?? null }))
+    .sort((a, b) => a.id - b.id);
+  return { state: { tracks: [...seenTracks, ...unseenTracks], nextId }, people };
+}
+
+/**
+ * Picks the person to coach: the one with the given id, or the largest if no id is given.
+ * A locked person who is out of view gives null, so nobody else takes their place.
+ */
+export function choosePerson(people: TrackedPerson[], personId: number | null): TrackedPerson | null {
+  if (personId !== null) return people.find(person => person.id === personId) ?? null;
+  return people.reduce<TrackedPerson | null>(
+    (largest, person) => (!largest || getPersonSize(person.landmarks) > getPersonSize(largest.landmarks) ? person : largest),
+    null
+  );
+}
+
+/**
+ * Returns the frame with the chosen person as its landmarks. Frames without people, e.g. from old traces, are kept as they are.
+ */
+export function focusOnPerson(frame: PoseFrame, personId: number | null): PoseFrame {
+  if (!frame.people) return frame;
+  const person = choosePerson(frame.people, personId);
+  return { ...frame, landmarks: person?.landmarks ?? null, worldLandmarks: person?.worldLandmarks ?? null };
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { JointAngleStats, proposeCriterion } from './poseAuthoring';
+
+const LEFT_ELBOW: JointAngleStats = { jointName: "left_elbow", sampleCount: 40, visibleRatio: 1, mean: 170, stdDev: 2 };
+
+describe("proposeCriterion", () => {
+  it("writes the proposed feedback in the authoring locale", () => {
+    expect(proposeCriterion(LEFT_ELBOW, "de").feedback).toEqual({
+      below_min: "left elbow weiter öffnen.",
+      above_max: "left elbow etwas schließen.",
+    });
+    expect(proposeCriterion(LEFT_ELBOW, "fr").feedback.below_min).toBe("Open up your left elbow more.");
+  });
+});
@@ -0,0 +1,118 @@
+import { AngleDetail, ExerciseConfig, JointCriterion, NormalizedLandmarkList, PoseData, PoseWorldLandmarks } from '../types';
+import { checkPoseAngles } from './poseUtils';
+import { getMessages } from './messages';
+import { AUTHORING_MIN_HALF_RANGE, AUTHORING_MIN_VISIBLE_RATIO, AUTHORING_SPREAD_FACTOR } from '../constants';
+
+export interface JointAngleStats {
+  jointName: string;
+  sampleCount: number; // Frames in which the joint was visible
+  visibleRatio: number; // sampleCount relative to all sampled frames
+  mean: number;
+  stdDev: number;
+}
+
+// Joints are "in range" for any angle, so every visible joint is measured and drawn neutrally
+const catchAllCriterion: JointCriterion = { angle_range: [0, 360], feedback: { below_min: "", above_max: "" } };
+
+/**
+ * Measures every joint in joint_definitions for one frame.
+ * Joints that are not visible are returned with an angle of -1.
+ */
+export function measureJointAngles(
+  landmarks: NormalizedLandmarkList,
+  config: ExerciseConfig,
+  frameW: number,
+  frameH: number,
+  worldLandmarks: PoseWorldLandmarks
+): AngleDetail[] {
+  const criteria: { [jointName: string]: JointCriterion } = {};
+  for (const jointName in config.joint_definitions) {
+    criteria[jointName] = catchAllCriterion;
+  }
+  return checkPoseAngles(landmarks, criteria, config.joint_definitions, frameW, frameH, {
+    tolerance: 0,
+    worldLandmarks,
+    defaultAngleMode: config.angle_mode,
+    virtualLandmarks: config.virtual_landmarks,
+  }).angleDetails;
+}
+
+/**
+ * Adds one frame of measured angles to the per-joint samples, skipping joints that were not visible.
+ */
+export function addAngleSamples(samples: { [jointName: string]: number[] }, angleDetails: AngleDetail[]) {
+  for (const detail of angleDetails) {
+    if (!detail.measured) continue;
+    if (!samples[detail.name]) samples[detail.name] = [];
+    samples[detail.name].push(detail.angle);
+  }
+}
+
+export function summarizeAngleSamples(
+  samples: { [jointName: string]: number[] },
+  jointNames: string[],
+  frameCount: number
+): JointAngleStats[] {
+  return jointNames.map(jointName => {
+    const values = samples[jointName] || [];
+    const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const variance = values.length > 0 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length : 0;
+    return {
+      jointName,
+      sampleCount: values.length,
+      visibleRatio: frameCount > 0 ? values.length / frameCount : 0,
+      mean,
+      stdDev: Math.sqrt(variance),
+    };
+  });
+}
+
+export function isReliableJoint(stats: JointAngleStats): boolean {
+  return stats.sampleCount > 0 && stats.visibleRatio >= AUTHORING_MIN_VISIBLE_RATIO;
+}
+
+// Proposed feedback is plain text in the authoring locale; other translations can be added to the config by hand
+export type ProposedCriterion = JointCriterion & { feedback: { below_min: string; above_max: string } };
+
+/**
+ * Proposes a criterion centred on the observed mean, wide enough to cover the observed spread.
+ * Feedback is a generic starting point for the instructor to rewrite.
+ */
+export function proposeCriterion(stats: JointAngleStats, locale: string): ProposedCriterion {
+  const halfRange = Math.max(AUTHORING_SPREAD_FACTOR * stats.stdDev, AUTHORING_MIN_HALF_RANGE);
+  const jointLabel = stats.jointName.replace(/_/g, ' ');
+  const messages = getMessages(locale);
+  return {
+    angle_range: [
+      Math.max(0, Math.round(stats.mean - halfRange)),
+      Math.min(180, Math.round(stats.mean + halfRange)),
+    ],
+    feedback: {
+      below_min: messages.proposedBelowMin(jointLabel),
+      above_max: messages.proposedAboveMax(jointLabel),
+    },
+  };
+}
+
+/**
+ * Formats a pose as a `"key": { ... }` entry that can be pasted straight into the "poses" object of exercise_config.json.
+ */
+export function formatPoseSnippet(poseKey: string, pose: PoseData): string {
+  return `${JSON.stringify(poseKey)}: ${JSON.stringify(pose, null, 2)}`;
+}
+
+/**
+ * Captures the current video frame as a JPEG data URL, mirrored to match the on-screen preview.
+ */
+export function captureSnapshot(video: HTMLVideoElement, width: number): string | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(width, video.videoWidth);
+  canvas.height = Math.round(canvas.width * video.videoHeight / video.videoWidth);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.translate(canvas.width, 0);
+  ctx.scale(-1, 1);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
@@ -0,0 +1,103 @@
+import { BodyLengthRange, BodyOrientation, ExerciseConfig, LocalizedText, PoseCriteria, PoseCriterion, PoseData, RepKeyframe } from '../types';
+import { mapLocalizedText } from './localization';
+
+// "left"/"right" as a whole word or name part, e.g. in "left_elbow", "LEFT_WRIST" or "Left arm"
+const SIDE_PATTERN = /(?<![a-z])(left|right)(?![a-z])/gi;
+
+/**
+ * Swaps every "left" and "right" in a name or sentence, keeping the original capitalization.
+ */
+export function swapSides(text: string): string {
+  return text.replace(SIDE_PATTERN, word => {
+    const swapped = word.toLowerCase() === 'left' ? 'right' : 'left';
+    if (word === word.toUpperCase()) return swapped.toUpperCase();
+    if (word[0] === word[0].toUpperCase()) return swapped[0].toUpperCase() + swapped.slice(1);
+    return swapped;
+  });
+}
+
+// Only English words are recognized, so translations that name a side must be given on both poses by hand
+const swapText = (text: LocalizedText): LocalizedText => mapLocalizedText(text, swapSides);
+
+const swapPair = (pair: [string, string]): [string, string] => [swapSides(pair[0]), swapSides(pair[1])];
+
+function mirrorCriterion(criterion: PoseCriterion): PoseCriterion {
+  switch (criterion.kind) {
+    case "offset": {
+      const mirrored = {
+        ...criterion,
+        landmark: swapSides(criterion.landmark),
+        reference: swapSides(criterion.reference),
+        normalize_by: criterion.normalize_by && swapPair(criterion.normalize_by),
+        feedback: { below_min: swapText(criterion.feedback.below_min), above_max: swapText(criterion.feedback.above_max) },
+      };
+      if (criterion.axis !== "x" || criterion.absolute) return mirrored;
+      // Sideways offsets change sign, so the range and its feedback flip over
+      const [min, max] = criterion.range;
+      const range: BodyLengthRange = [max === null ? null : -max, min === null ? null : -min];
+      return {
+        ...mirrored,
+        range,
+        feedback: { below_min: mirrored.feedback.above_max, above_max: mirrored.feedback.below_min },
+      };
+    }
+    case "distance":
+      return {
+        ...criterion,
+        landmarks: swapPair(criterion.landmarks),
+        normalize_by: criterion.normalize_by && swapPair(criterion.normalize_by),
+        feedback: { below_min: swapText(criterion.feedback.below_min), above_max: swapText(criterion.feedback.above_max) },
+      };
+    case "symmetry":
+      return {
+        ...criterion,
+        joints: swapPair(criterion.joints),
+        feedback: { above_max: swapText(criterion.feedback.above_max) },
+      };
+    default:
+      return {
+        ...criterion,
+        feedback: { below_min: swapText(criterion.feedback.below_min), above_max: swapText(criterion.feedback.above_max) },
+      };
+  }
+}
+
+function mirrorCriteria(criteria: PoseCriteria): PoseCriteria {
+  const mirrored: PoseCriteria = {};
+  for (const name in criteria) {
+    if (!criteria.hasOwnProperty(name)) continue;
+    mirrored[swapSides(name)] = mirrorCriterion(criteria[name]);
+  }
+  return mirrored;
+}
+
+/**
+ * Builds the opposite-side version of a pose: joint and landmark names, criterion names and all text swap sides.
+ */
+export function mirrorPose(pose: PoseData, poseName: string): PoseData {
+  const { mirror, ...rest } = pose;
+  return {
+    ...rest,
+    display_name: swapText(pose.display_name || poseName.replace(/_/g, ' ')),
+    description: pose.description && swapText(pose.description),
+    half_rep_feedback: pose.half_rep_feedback && swapText(pose.half_rep_feedback),
+    orientation: pose.orientation && (swapSides(pose.orientation) as BodyOrientation),
+    criteria: mirrorCriteria(pose.criteria),
+    keyframes: pose.keyframes?.map((keyframe): RepKeyframe => ({ ...keyframe, criteria: mirrorCriteria(keyframe.criteria) })),
+    mirror_of: poseName,
+  };
+}
+
+/**
+ * Returns the config with a generated pose added for every pose that declares `mirror`.
+ */
+export function expandMirroredPoses(config: ExerciseConfig): ExerciseConfig {
+  const poses = { ...config.poses };
+  for (const poseName in config.poses) {
+    const pose = config.poses[poseName];
+    if (pose.mirror && !poses[pose.mirror]) {
+      poses[pose.mirror] = mirrorPose(pose, poseName);
+    }
+  }
+  return { ...config, poses };
+}
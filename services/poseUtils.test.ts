@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JointDefinition, NormalizedLandmarkList, PoseCriteria } from '../types';
+import { POSE_LANDMARK_NAMES } from '../constants';
+import { checkPoseAngles, resetPoseWarnings } from './poseUtils';
+
+// A person standing straight, every landmark fully visible
+const LANDMARKS: NormalizedLandmarkList = POSE_LANDMARK_NAMES.map((_, index) => ({ x: 0.5, y: index / POSE_LANDMARK_NAMES.length, z: 0, visibility: 1 }));
+const JOINTS: { [jointName: string]: JointDefinition } = {
+  left_knee: { landmarks: { A: "LEFT_HIP", B: "LEFT_KNEE", C: "LEFT_ANKLE" }, angle_mode: "3d" },
+  right_knee: { landmarks: { A: "RIGHT_HIP", B: "RIGHT_KNEE", C: "RIGHT_ANKLE" }, angle_mode: "3d" },
+};
+const CRITERIA: PoseCriteria = {
+  left_knee: { angle_range: [0, 180], feedback: { below_min: "Straighten", above_max: "Bend" } },
+  right_knee: { angle_range: [0, 180], feedback: { below_min: "Straighten", above_max: "Bend" } },
+};
+
+describe("checkPoseAngles without world landmarks", () => {
+  beforeEach(() => resetPoseWarnings());
+  afterEach(() => vi.restoreAllMocks());
+
+  it("warns once per 3D joint about the 2D fallback, not on every frame", () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    for (let frame = 0; frame < 30; frame++) checkPoseAngles(LANDMARKS, CRITERIA, JOINTS, 640, 480);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls.map(call => call[0])).toEqual([
+      expect.stringContaining("'left_knee'"),
+      expect.stringContaining("'right_knee'"),
+    ]);
+  });
+
+  it("warns again after the warnings are reset", () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    checkPoseAngles(LANDMARKS, CRITERIA, JOINTS, 640, 480);
+    resetPoseWarnings();
+    checkPoseAngles(LANDMARKS, CRITERIA, JOINTS, 640, 480);
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+});
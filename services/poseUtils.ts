@@ -1,20 +1,23 @@
-import { NormalizedLandmark, NormalizedLandmarkList, AngleDetail, JointCriterion, JointDefinition, LandmarkPoint } from '../types';
-import { COLOR_CORRECT, COLOR_INCORRECT, EASY_MODE_TOLERANCE } from '../constants';
+import { NormalizedLandmarkList, AngleDetail, JointCriterion, JointDefinition, LandmarkPoint, AngleMode, PoseWorldLandmarks, PoseCriteria, OffsetCriterion, DistanceCriterion, SymmetryCriterion, CriterionKind, ReferenceAxis, VirtualLandmarks } from '../types';
+import { COLOR_INCORRECT, DEFAULT_TOLERANCE, DEFAULT_POSITION_TOLERANCE, POSE_LANDMARK_NAMES, REFERENCE_AXIS_DRAW_LENGTH, DEFAULT_LOCALE, SCORE_FALLOFF_DEGREES, SCORE_FALLOFF_BODY_LENGTHS } from '../constants';
+import { localize } from './localization';
+import { getMessages } from './messages';
 
 /**
  * Calculates the angle between three points (in degrees).
+ * With use3D the z coordinate is included; otherwise the points are projected onto the x/y plane.
  */
-export function calculateAngle(p1: LandmarkPoint, p2: LandmarkPoint, p3: LandmarkPoint): number {
-  const p1_np = [p1.x, p1.y];
-  const p2_np = [p2.x, p2.y];
-  const p3_np = [p3.x, p3.y];
+export function calculateAngle(p1: LandmarkPoint, p2: LandmarkPoint, p3: LandmarkPoint, use3D: boolean = false): number {
+  const p1_np = [p1.x, p1.y, use3D ? (p1.z ?? 0) : 0];
+  const p2_np = [p2.x, p2.y, use3D ? (p2.z ?? 0) : 0];
+  const p3_np = [p3.x, p3.y, use3D ? (p3.z ?? 0) : 0];
 
-  const ba = [p1_np[0] - p2_np[0], p1_np[1] - p2_np[1]];
-  const bc = [p3_np[0] - p2_np[0], p3_np[1] - p2_np[1]];
+  const ba = [p1_np[0] - p2_np[0], p1_np[1] - p2_np[1], p1_np[2] - p2_np[2]];
+  const bc = [p3_np[0] - p2_np[0], p3_np[1] - p2_np[1], p3_np[2] - p2_np[2]];
 
-  const dotProduct = ba[0] * bc[0] + ba[1] * bc[1];
-  const magBa = Math.sqrt(ba[0] * ba[0] + ba[1] * ba[1]);
-  const magBc = Math.sqrt(bc[0] * bc[0] + bc[1] * bc[1]);
+  const dotProduct = ba[0] * bc[0] + ba[1] * bc[1] + ba[2] * bc[2];
+  const magBa = Math.sqrt(ba[0] * ba[0] + ba[1] * ba[1] + ba[2] * ba[2]);
+  const magBc = Math.sqrt(bc[0] * bc[0] + bc[1] * bc[1] + bc[2] * bc[2]);
 
   if (magBa === 0 || magBc === 0) return 0.0;
 
@@ -25,133 +28,459 @@ export function calculateAngle(p1: LandmarkPoint, p2: LandmarkPoint, p3: Landmar
   return (angleRad * 180) / Math.PI;
 }
 
-// Helper to map string landmark names from config to MediaPipe PoseLandmark enum indices
+// Joints already warned about falling back to 2D; the warning would otherwise repeat on every frame
+const warnedJoints2d = new Set<string>();
+
+/**
+ * Lets the once-per-joint warnings show again, e.g. for a newly loaded config whose joints may share names with the last one.
+ */
+export function resetPoseWarnings() {
+  warnedJoints2d.clear();
+}
+
+// Helper to map string landmark names from config to MediaPipe landmark indices.
+// Uses the static name list so that traces can be evaluated without MediaPipe loaded.
 function getLandmarkIndex(name: string): number {
-  const upperName = name.toUpperCase();
-  // Access PoseLandmark enum via window.mpVision
-  if (window.mpVision && window.mpVision.PoseLandmarker && window.mpVision.PoseLandmarker.PoseLandmark) {
-    const poseLandmarkEnum = window.mpVision.PoseLandmarker.PoseLandmark;
-    if (upperName in poseLandmarkEnum) {
-      return poseLandmarkEnum[upperName as keyof typeof poseLandmarkEnum];
+  const index = POSE_LANDMARK_NAMES.indexOf(name.toUpperCase());
+  if (index === -1) {
+    console.warn(`Unknown landmark name: ${name}`);
+  }
+  return index;
+}
+
+const REFERENCE_AXIS_DIRECTIONS: { [axis in ReferenceAxis]: { x: number; y: number } } = {
+  VERTICAL: { x: 0, y: -1 }, // Image y grows downwards
+  HORIZONTAL: { x: 1, y: 0 },
+};
+
+export const isReferenceAxis = (name: string): name is ReferenceAxis => REFERENCE_AXIS_DIRECTIONS.hasOwnProperty(name);
+
+interface LandmarkLike {
+  x: number;
+  y: number;
+  z?: number;
+  visibility?: number;
+}
+
+/**
+ * Looks up a landmark by name. Virtual landmarks are the average of their components,
+ * and only as visible as the least visible component.
+ */
+function resolveLandmark(name: string, landmarks: LandmarkLike[], virtualLandmarks: VirtualLandmarks): LandmarkLike | undefined {
+  const virtual = virtualLandmarks[name] ?? virtualLandmarks[name.toUpperCase()];
+  if (!virtual) return landmarks[getLandmarkIndex(name)];
+
+  const parts = virtual.average.map(part => landmarks[getLandmarkIndex(part)]);
+  if (parts.length === 0 || parts.some(part => !part)) return undefined;
+  const mean = (read: (part: LandmarkLike) => number) => parts.reduce((sum, part) => sum + read(part), 0) / parts.length;
+  return {
+    x: mean(part => part.x),
+    y: mean(part => part.y),
+    z: mean(part => part.z ?? 0),
+    visibility: Math.min(...parts.map(part => part.visibility ?? 0)),
+  };
+}
+
+// A point one unit from the vertex along the axis, so the B-to-axis segment has the axis direction
+const axisEndpoint = (axis: ReferenceAxis, vertex: LandmarkLike): LandmarkLike => ({
+  x: vertex.x + REFERENCE_AXIS_DIRECTIONS[axis].x,
+  y: vertex.y + REFERENCE_AXIS_DIRECTIONS[axis].y,
+  z: vertex.z,
+  visibility: 1,
+});
+
+
+export interface CheckPoseOptions {
+  tolerance?: number; // Degrees
+  positionTolerance?: number; // Body lengths, for offset and distance criteria
+  worldLandmarks?: PoseWorldLandmarks; // Required for joints measured in 3D
+  defaultAngleMode?: AngleMode; // Used for joints without their own angle_mode
+  virtualLandmarks?: VirtualLandmarks;
+  locale?: string; // Selects translated feedback
+}
+
+const VISIBILITY_THRESHOLD = 0.3;
+
+const isVisible = (landmark: LandmarkLike) => !!landmark.visibility && landmark.visibility > VISIBILITY_THRESHOLD;
+
+// How far a value lies outside [min, max]; a null bound is open-ended
+const rangeDeviation = (value: number, min: number | null, max: number | null): number =>
+  Math.max(0, min === null ? 0 : min - value, max === null ? 0 : value - max);
+
+// 100 inside the range, falling linearly to 0 at `falloff` outside it
+const deviationToScore = (deviation: number, falloff: number): number => 100 * Math.max(0, 1 - deviation / falloff);
+
+/**
+ * Maps a score to a color from COLOR_INCORRECT (0) through yellow to COLOR_CORRECT (100).
+ */
+export function scoreToColor(score: number): string {
+  const hue = 120 * Math.min(Math.max(score, 0), 100) / 100;
+  return `hsl(${hue.toFixed(0)}, 100%, 50%)`;
+}
+
+// Weighted mean of the criterion scores. With every weight at 0 the pose is all or nothing
+function getPoseScore(details: AngleDetail[], allJointsCorrect: boolean): number {
+  const totalWeight = details.reduce((sum, detail) => sum + detail.weight, 0);
+  if (totalWeight === 0) return allJointsCorrect ? 100 : 0;
+  return details.reduce((sum, detail) => sum + detail.score * detail.weight, 0) / totalWeight;
+}
+
+const toScreen = (landmark: LandmarkLike, frameW: number, frameH: number) => ({ x: landmark.x * frameW, y: landmark.y * frameH });
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Screen positions of landmarks by name, null if any is unknown, missing or not clearly visible
+function getVisiblePoints(
+  names: string[],
+  landmarks: NormalizedLandmarkList,
+  virtualLandmarks: VirtualLandmarks,
+  frameW: number,
+  frameH: number
+) {
+  const points = [];
+  for (const name of names) {
+    const landmark = resolveLandmark(name, landmarks, virtualLandmarks);
+    if (!landmark || !isVisible(landmark)) return null;
+    points.push(toScreen(landmark, frameW, frameH));
+  }
+  return points;
+}
+
+/**
+ * Returns the body length in pixels used to normalize positional criteria:
+ * the distance between the given landmarks, or the torso (mid-shoulders to mid-hips) by default.
+ */
+function getBodyLength(
+  normalizeBy: [string, string] | undefined,
+  landmarks: NormalizedLandmarkList,
+  virtualLandmarks: VirtualLandmarks,
+  frameW: number,
+  frameH: number
+): number | null {
+  if (normalizeBy) {
+    const points = getVisiblePoints(normalizeBy, landmarks, virtualLandmarks, frameW, frameH);
+    return points ? distance(points[0], points[1]) : null;
+  }
+  const torso = getVisiblePoints(["LEFT_SHOULDER", "RIGHT_SHOULDER", "LEFT_HIP", "RIGHT_HIP"], landmarks, {}, frameW, frameH);
+  if (!torso) return null;
+  const [leftShoulder, rightShoulder, leftHip, rightHip] = torso;
+  const midShoulders = { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 };
+  const midHips = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 };
+  return distance(midShoulders, midHips);
+}
+
+function checkAngleCriterion(
+  jointName: string,
+  criterion: JointCriterion,
+  jointDef: JointDefinition,
+  landmarksMp: NormalizedLandmarkList,
+  frameW: number,
+  frameH: number,
+  tolerance: number,
+  worldLandmarks: PoseWorldLandmarks,
+  defaultAngleMode: AngleMode,
+  virtualLandmarks: VirtualLandmarks,
+  locale: string
+): AngleDetail {
+  const { A, B, C } = jointDef.landmarks;
+  const isKnown = (name: string) =>
+    isReferenceAxis(name) || !!(virtualLandmarks[name] ?? virtualLandmarks[name.toUpperCase()]) || getLandmarkIndex(name) !== -1;
+
+  if (!isKnown(A) || !isKnown(C) || isReferenceAxis(B) || !isKnown(B)) {
+    return {
+      name: jointName,
+      kind: "angle",
+      priority: criterion.priority ?? 0,
+      angle: -1,
+      measured: false,
+      score: 0,
+      weight: criterion.weight ?? 1,
+      is_correct: false,
+      feedback: getMessages(locale).landmarkDefinitionError(jointName.replace(/_/g, ' ')),
+      p1: { x: 0, y: 0 }, p2: { x: 0, y: 0 }, p3: { x: 0, y: 0 },
+      color: COLOR_INCORRECT,
+    };
+  }
+
+  // Axis endpoints are placed relative to the vertex, in whichever coordinate space is being measured
+  const resolveJoint = (list: LandmarkLike[]) => {
+    const vertex = resolveLandmark(B, list, virtualLandmarks);
+    if (!vertex) return null;
+    const endpoint = (name: string) => isReferenceAxis(name) ? axisEndpoint(name, vertex) : resolveLandmark(name, list, virtualLandmarks);
+    const a = endpoint(A);
+    const c = endpoint(C);
+    return a && c ? [a, vertex, c] : null;
+  };
+
+  const points = resolveJoint(landmarksMp);
+  if (!points) {
+    return {
+      name: jointName,
+      kind: "angle",
+      priority: criterion.priority ?? 0,
+      angle: -1,
+      measured: false,
+      score: 0,
+      weight: criterion.weight ?? 1,
+      is_correct: false,
+      feedback: getMessages(locale).pointsNotFound(jointName.replace(/_/g, ' ')),
+      p1: { x: 0, y: 0 }, p2: { x: 0, y: 0 }, p3: { x: 0, y: 0 },
+      color: COLOR_INCORRECT,
+    };
+  }
+  const [lmA_obj, lmB_obj, lmC_obj] = points;
+
+  let currentAngle: number;
+  let isCorrect: boolean;
+  let feedbackMsg = "";
+  let score = 0;
+  let color = COLOR_INCORRECT;
+
+  if (!(isVisible(lmA_obj) && isVisible(lmB_obj) && isVisible(lmC_obj))) {
+    currentAngle = -1; // Indicate low visibility
+    isCorrect = false;
+    feedbackMsg = getMessages(locale).notVisible(jointName.replace(/_/g, ' '));
+  } else {
+    const angleMode = jointDef.angle_mode || defaultAngleMode;
+    const worldPoints = worldLandmarks ? resolveJoint(worldLandmarks) : null;
+
+    if (angleMode === "3d" && worldPoints) {
+      // World landmarks are metric, so the angle is not distorted by the camera viewpoint
+      currentAngle = calculateAngle(worldPoints[0], worldPoints[1], worldPoints[2], true);
+    } else {
+      if (angleMode === "3d" && !warnedJoints2d.has(jointName)) {
+        warnedJoints2d.add(jointName);
+        console.warn(`World landmarks unavailable for 3D joint '${jointName}', falling back to 2D.`);
+      }
+      // Note: landmarksMp are already normalized (0.0 to 1.0)
+      // For calculateAngle, we use these normalized coordinates directly.
+      // The scaling to frameW/frameH is done later when storing p1, p2, p3 for drawing.
+      const p1_norm: LandmarkPoint = { x: lmA_obj.x, y: lmA_obj.y };
+      const p2_norm: LandmarkPoint = { x: lmB_obj.x, y: lmB_obj.y };
+      const p3_norm: LandmarkPoint = { x: lmC_obj.x, y: lmC_obj.y };
+
+      currentAngle = calculateAngle(p1_norm, p2_norm, p3_norm);
+    }
+    const [minAngle, maxAngle] = criterion.angle_range;
+
+    isCorrect = currentAngle >= (minAngle - tolerance) && currentAngle <= (maxAngle + tolerance);
+    score = deviationToScore(rangeDeviation(currentAngle, minAngle - tolerance, maxAngle + tolerance), SCORE_FALLOFF_DEGREES);
+    color = scoreToColor(score);
+
+    if (!isCorrect) {
+      if (currentAngle < (minAngle - tolerance)) {
+        feedbackMsg = localize(criterion.feedback.below_min, locale);
+      } else {
+        feedbackMsg = localize(criterion.feedback.above_max, locale);
+      }
     }
   }
-  console.warn(`Unknown landmark name or PoseLandmark enum not available: ${name}`);
-  return -1; // Or throw error
+
+  // Scale here for drawing. Axis endpoints get a fixed on-screen length instead of one normalized unit.
+  const vertexOnScreen = toScreen(lmB_obj, frameW, frameH);
+  const endpointOnScreen = (name: string, landmark: LandmarkLike) => isReferenceAxis(name)
+    ? {
+        x: vertexOnScreen.x + REFERENCE_AXIS_DIRECTIONS[name].x * REFERENCE_AXIS_DRAW_LENGTH,
+        y: vertexOnScreen.y + REFERENCE_AXIS_DIRECTIONS[name].y * REFERENCE_AXIS_DRAW_LENGTH,
+      }
+    : toScreen(landmark, frameW, frameH);
+
+  return {
+    name: jointName,
+    kind: "angle",
+    priority: criterion.priority ?? 0,
+    angle: currentAngle,
+    measured: currentAngle > -1,
+    score,
+    weight: criterion.weight ?? 1,
+    is_correct: isCorrect,
+    feedback: feedbackMsg,
+    p1: endpointOnScreen(A, lmA_obj),
+    p2: vertexOnScreen,
+    p3: endpointOnScreen(C, lmC_obj),
+    color: color,
+  };
+}
+
+/**
+ * Checks an offset or distance criterion.
+ * For offsets p1 is the landmark, p2 the reference and p3 the reference moved level with the landmark along the
+ * other axis, so p3 to p1 is the measured offset. For distances p1 and p2 are the two landmarks and p3 repeats p2.
+ */
+function checkPositionCriterion(
+  name: string,
+  criterion: OffsetCriterion | DistanceCriterion,
+  landmarksMp: NormalizedLandmarkList,
+  frameW: number,
+  frameH: number,
+  tolerance: number,
+  virtualLandmarks: VirtualLandmarks,
+  locale: string
+): AngleDetail {
+  const names = criterion.kind === "offset" ? [criterion.landmark, criterion.reference] : criterion.landmarks;
+  const points = getVisiblePoints(names, landmarksMp, virtualLandmarks, frameW, frameH);
+  const bodyLength = getBodyLength(criterion.normalize_by, landmarksMp, virtualLandmarks, frameW, frameH);
+
+  if (!points || !bodyLength) {
+    const [p1, p2] = points || [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+    return {
+      name,
+      kind: criterion.kind,
+      priority: criterion.priority ?? 0,
+      angle: 0,
+      measured: false,
+      score: 0,
+      weight: criterion.weight ?? 1,
+      is_correct: false,
+      feedback: getMessages(locale).notVisible(name.replace(/_/g, ' ')),
+      p1, p2, p3: p2,
+      color: COLOR_INCORRECT,
+    };
+  }
+
+  const [p1, p2] = points;
+  let value: number;
+  if (criterion.kind === "offset") {
+    // Screen y grows downwards, so it is flipped to make "up" positive
+    const offset = criterion.axis === "x" ? p1.x - p2.x : p2.y - p1.y;
+    value = (criterion.absolute ? Math.abs(offset) : offset) / bodyLength;
+  } else {
+    value = distance(p1, p2) / bodyLength;
+  }
+
+  const [min, max] = criterion.range;
+  const belowMin = min !== null && value < min - tolerance;
+  const aboveMax = max !== null && value > max + tolerance;
+  const isCorrect = !belowMin && !aboveMax;
+  const score = deviationToScore(
+    rangeDeviation(value, min === null ? null : min - tolerance, max === null ? null : max + tolerance),
+    SCORE_FALLOFF_BODY_LENGTHS
+  );
+  const feedbackMsg = localize(belowMin ? criterion.feedback.below_min : aboveMax ? criterion.feedback.above_max : "", locale);
+  return {
+    name,
+    kind: criterion.kind,
+    priority: criterion.priority ?? 0,
+    angle: value,
+    measured: true,
+    score,
+    weight: criterion.weight ?? 1,
+    is_correct: isCorrect,
+    feedback: feedbackMsg,
+    p1, p2,
+    p3: criterion.kind === "offset" ? (criterion.axis === "x" ? { x: p2.x, y: p1.y } : { x: p1.x, y: p2.y }) : p2,
+    color: scoreToColor(score),
+  };
 }
 
+// Measures a joint for a symmetry criterion without judging it
+const ANY_ANGLE: JointCriterion = { angle_range: [0, 180], feedback: { below_min: "", above_max: "" } };
 
 /**
- * Checks pose angles against criteria.
- * Returns angle details for drawing and whether all joints are correct.
+ * Compares the angles of two measured joints. p1 and p2 are the two vertices, p3 repeats p2.
+ */
+function checkSymmetryCriterion(
+  name: string,
+  criterion: SymmetryCriterion,
+  first: AngleDetail | null,
+  second: AngleDetail | null,
+  tolerance: number,
+  locale: string
+): AngleDetail {
+  if (!first?.measured || !second?.measured) {
+    return {
+      name,
+      kind: "symmetry",
+      priority: criterion.priority ?? 0,
+      angle: -1,
+      measured: false,
+      score: 0,
+      weight: criterion.weight ?? 1,
+      is_correct: false,
+      feedback: getMessages(locale).notVisible(name.replace(/_/g, ' ')),
+      p1: first?.p2 || { x: 0, y: 0 }, p2: second?.p2 || { x: 0, y: 0 }, p3: second?.p2 || { x: 0, y: 0 },
+      color: COLOR_INCORRECT,
+    };
+  }
+  const difference = Math.abs(first.angle - second.angle);
+  const isCorrect = difference <= criterion.max_difference + tolerance;
+  const score = deviationToScore(rangeDeviation(difference, null, criterion.max_difference + tolerance), SCORE_FALLOFF_DEGREES);
+  return {
+    name,
+    kind: "symmetry",
+    priority: criterion.priority ?? 0,
+    angle: difference,
+    measured: true,
+    score,
+    weight: criterion.weight ?? 1,
+    is_correct: isCorrect,
+    feedback: isCorrect ? "" : localize(criterion.feedback.above_max, locale),
+    p1: first.p2, p2: second.p2, p3: second.p2,
+    color: scoreToColor(score),
+  };
+}
+
+/**
+ * Checks pose criteria: joint angles, offsets and distances between landmarks, and left/right symmetry.
+ * Returns details for drawing, whether all criteria are met, and the weighted overall score (0 to 100).
  */
 export function checkPoseAngles(
   landmarksMp: NormalizedLandmarkList, // This is NormalizedLandmark[]
-  poseCriteria: { [jointName: string]: JointCriterion },
+  poseCriteria: PoseCriteria,
   jointDefinitions: { [jointName: string]: JointDefinition },
   frameW: number,
   frameH: number,
-  tolerance: number = EASY_MODE_TOLERANCE
-): { angleDetails: AngleDetail[], allJointsCorrect: boolean } {
+  options: CheckPoseOptions = {}
+): { angleDetails: AngleDetail[], allJointsCorrect: boolean, score: number } {
+  const {
+    tolerance = DEFAULT_TOLERANCE,
+    positionTolerance = DEFAULT_POSITION_TOLERANCE,
+    worldLandmarks = null,
+    defaultAngleMode = "2d",
+    virtualLandmarks = {},
+    locale = DEFAULT_LOCALE,
+  } = options;
   const angleDetails: AngleDetail[] = [];
   let allJointsCorrect = true;
 
-  for (const jointName in poseCriteria) {
-    if (!poseCriteria.hasOwnProperty(jointName)) continue;
-    
-    const criterion = poseCriteria[jointName];
-    const jointDef = jointDefinitions[jointName];
+  for (const name in poseCriteria) {
+    if (!poseCriteria.hasOwnProperty(name)) continue;
+    const criterion = poseCriteria[name];
 
-    if (!jointDef) {
-      console.warn(`Joint definition for '${jointName}' not found.`);
-      allJointsCorrect = false;
+    if (criterion.kind === "offset" || criterion.kind === "distance") {
+      angleDetails.push(checkPositionCriterion(name, criterion, landmarksMp, frameW, frameH, positionTolerance, virtualLandmarks, locale));
       continue;
     }
 
-    const lmIdxA = getLandmarkIndex(jointDef.landmarks.A);
-    const lmIdxB = getLandmarkIndex(jointDef.landmarks.B);
-    const lmIdxC = getLandmarkIndex(jointDef.landmarks.C);
-
-    if (lmIdxA === -1 || lmIdxB === -1 || lmIdxC === -1) {
-        allJointsCorrect = false;
-        angleDetails.push({
-            name: jointName,
-            angle: -1,
-            is_correct: false,
-            feedback: `Landmark definition error for ${jointName.replace(/_/g, ' ')}.`,
-            p1: { x: 0, y: 0 }, p2: { x: 0, y: 0 }, p3: { x: 0, y: 0 },
-            color: COLOR_INCORRECT,
-        });
-        continue;
-    }
-    
-    const lmA_obj: NormalizedLandmark | undefined = landmarksMp[lmIdxA];
-    const lmB_obj: NormalizedLandmark | undefined = landmarksMp[lmIdxB];
-    const lmC_obj: NormalizedLandmark | undefined = landmarksMp[lmIdxC];
-
-    if (!lmA_obj || !lmB_obj || !lmC_obj) {
-      allJointsCorrect = false; // Missing landmarks means incorrect
-      angleDetails.push({
-          name: jointName,
-          angle: -1,
-          is_correct: false,
-          feedback: `${jointName.replace(/_/g, ' ')} points not found on body.`,
-          p1: { x: 0, y: 0 }, p2: { x: 0, y: 0 }, p3: { x: 0, y: 0 },
-          color: COLOR_INCORRECT,
-      });
+    if (criterion.kind === "symmetry") {
+      const [first, second] = criterion.joints.map(jointName => jointDefinitions[jointName]
+        ? checkAngleCriterion(
+            jointName, ANY_ANGLE, jointDefinitions[jointName], landmarksMp, frameW, frameH, 0, worldLandmarks, defaultAngleMode, virtualLandmarks, locale
+          )
+        : null);
+      angleDetails.push(checkSymmetryCriterion(name, criterion, first, second, tolerance, locale));
       continue;
     }
-    
-    const visThreshold = 0.3; // Visibility threshold
-    let currentAngle: number;
-    let isCorrect: boolean;
-    let feedbackMsg = "";
-    let color = COLOR_INCORRECT;
-
-    if (
-      !(lmA_obj.visibility && lmA_obj.visibility > visThreshold &&
-        lmB_obj.visibility && lmB_obj.visibility > visThreshold &&
-        lmC_obj.visibility && lmC_obj.visibility > visThreshold)
-    ) {
-      currentAngle = -1; // Indicate low visibility
-      isCorrect = false;
-      feedbackMsg = `${jointName.replace(/_/g, ' ')} not clearly visible.`;
+
+    const jointDef = jointDefinitions[name];
+    if (!jointDef) {
+      console.warn(`Joint definition for '${name}' not found.`);
       allJointsCorrect = false;
-    } else {
-      // Note: landmarksMp are already normalized (0.0 to 1.0)
-      // For calculateAngle, we use these normalized coordinates directly.
-      // The scaling to frameW/frameH is done later when storing p1, p2, p3 for drawing.
-      const p1_norm: LandmarkPoint = { x: lmA_obj.x, y: lmA_obj.y };
-      const p2_norm: LandmarkPoint = { x: lmB_obj.x, y: lmB_obj.y };
-      const p3_norm: LandmarkPoint = { x: lmC_obj.x, y: lmC_obj.y };
-      
-      currentAngle = calculateAngle(p1_norm, p2_norm, p3_norm);
-      const [minAngle, maxAngle] = criterion.angle_range;
-
-      isCorrect = currentAngle >= (minAngle - tolerance) && currentAngle <= (maxAngle + tolerance);
-      color = isCorrect ? COLOR_CORRECT : COLOR_INCORRECT;
-
-      if (!isCorrect) {
-        allJointsCorrect = false;
-        if (currentAngle < (minAngle - tolerance)) {
-          feedbackMsg = criterion.feedback.below_min;
-        } else {
-          feedbackMsg = criterion.feedback.above_max;
-        }
-      }
+      continue;
     }
-
-    angleDetails.push({
-      name: jointName,
-      angle: currentAngle,
-      is_correct: isCorrect,
-      feedback: feedbackMsg,
-      p1: { x: lmA_obj.x * frameW, y: lmA_obj.y * frameH }, // Scale here for drawing
-      p2: { x: lmB_obj.x * frameW, y: lmB_obj.y * frameH },
-      p3: { x: lmC_obj.x * frameW, y: lmC_obj.y * frameH },
-      color: color,
-    });
+    angleDetails.push(checkAngleCriterion(
+      name, criterion, jointDef, landmarksMp, frameW, frameH, tolerance, worldLandmarks, defaultAngleMode, virtualLandmarks, locale
+    ));
   }
-  return { angleDetails, allJointsCorrect };
+  if (angleDetails.some(detail => !detail.is_correct)) allJointsCorrect = false;
+  return { angleDetails, allJointsCorrect, score: getPoseScore(angleDetails, allJointsCorrect) };
+}
+
+/**
+ * Formats a measured criterion value with its unit.
+ */
+export function formatCriterionValue(value: number, kind: CriterionKind = "angle"): string {
+  return kind === "angle" || kind === "symmetry" ? `${Math.round(value)}°` : `${value.toFixed(2)} body lengths`;
 }
 
 
@@ -169,4 +498,11 @@ export function wrapText(text: string, lineLength: number): string[] {
   }
   lines.push(currentLine.trim());
   return lines;
-}
\ No newline at end of file
+}
+export function formatSeconds(seconds: number | null): string {
+  return seconds === null ? '—' : `${seconds.toFixed(1)}s`;
+}
+
+export function formatScore(score: number | undefined): string {
+  return score === undefined ? '—' : `${Math.round(score)}`;
+}
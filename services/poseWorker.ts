@@ -0,0 +1,84 @@
+// Runs the pose landmarker off the main thread, as a module worker started by VideoFeed.
+// MediaPipe and its wasm runtime are bundled from the pinned npm package, so no CDN is needed.
+import { PoseLandmarker, NormalizedLandmark, Landmark } from '@mediapipe/tasks-vision';
+import wasmLoaderUrl from '@mediapipe/tasks-vision/vision_wasm_module_internal.js?url';
+import wasmBinaryUrl from '@mediapipe/tasks-vision/vision_wasm_module_internal.wasm?url';
+import type { EngineSettings, EngineStatus, InferenceDelegate } from '../types';
+
+export type PoseWorkerRequest =
+  | { type: "init"; settings: EngineSettings; modelAssetPath: string }
+  | { type: "frame"; frameId: number; bitmap: ImageBitmap; timestampMs: number } // Monotonic timestamp for MediaPipe
+  | { type: "close" };
+
+export type PoseWorkerResponse =
+  | { type: "ready"; status: EngineStatus }
+  | { type: "init_error"; message: string }
+  | { type: "result"; frameId: number; landmarks: NormalizedLandmark[][]; worldLandmarks: Landmark[][] }
+  | { type: "frame_error"; frameId: number; message: string };
+
+let poseLandmarker: PoseLandmarker | null = null;
+
+const respond = (response: PoseWorkerResponse) => self.postMessage(response);
+
+const createLandmarker = (request: Extract<PoseWorkerRequest, { type: "init" }>, delegate: InferenceDelegate) => {
+  const { settings, modelAssetPath } = request;
+  return PoseLandmarker.createFromOptions(
+    // The module build of the runtime, which MediaPipe loads with import() in module workers
+    { wasmLoaderPath: wasmLoaderUrl, wasmBinaryPath: wasmBinaryUrl },
+    {
+      baseOptions: { modelAssetPath, delegate },
+      runningMode: "VIDEO",
+      numPoses: settings.numPoses,
+      minPoseDetectionConfidence: settings.minPoseDetectionConfidence,
+      minPosePresenceConfidence: settings.minPosePresenceConfidence,
+      minTrackingConfidence: settings.minTrackingConfidence,
+      outputSegmentationMasks: false,
+    }
+  );
+};
+
+// GPU needs WebGL2 in workers, which not every machine has; CPU always works, only slower
+const initialize = async (request: Extract<PoseWorkerRequest, { type: "init" }>) => {
+  const { model, delegate } = request.settings;
+  let fallbackReason: string | null = null;
+  if (delegate === "GPU") {
+    try {
+      poseLandmarker = await createLandmarker(request, "GPU");
+      respond({ type: "ready", status: { model, delegate: "GPU", fallbackReason: null } });
+      return;
+    } catch (error) {
+      fallbackReason = (error as Error).message;
+      console.warn("GPU delegate failed, retrying on CPU:", fallbackReason);
+    }
+  }
+  try {
+    poseLandmarker = await createLandmarker(request, "CPU");
+    respond({ type: "ready", status: { model, delegate: "CPU", fallbackReason } });
+  } catch (error) {
+    respond({ type: "init_error", message: (error as Error).message });
+  }
+};
+
+self.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "init") {
+    initialize(request);
+    return;
+  }
+  if (request.type === "close") {
+    poseLandmarker?.close();
+    poseLandmarker = null;
+    return;
+  }
+
+  const { frameId, bitmap, timestampMs } = request;
+  try {
+    if (!poseLandmarker) throw new Error("Pose landmarker is not initialized.");
+    const results = poseLandmarker.detectForVideo(bitmap, timestampMs);
+    respond({ type: "result", frameId, landmarks: results.landmarks, worldLandmarks: results.worldLandmarks });
+  } catch (error) {
+    respond({ type: "frame_error", frameId, message: (error as Error).message });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { REP_LEAVE_START_FRAMES } from '../constants';
+import { INITIAL_REP_COUNTER, RepEvent, advanceRepCounter } from './repCounter';
+
+// One character per frame for a two-keyframe exercise: S is the start keyframe, K the other one, . in between
+function countReps(frames: string): { events: RepEvent[]; count: number } {
+  let state = INITIAL_REP_COUNTER;
+  const events: RepEvent[] = [];
+  for (const frame of frames) {
+    const result = advanceRepCounter(state, 2, frame === "S", frame === "K");
+    state = result.state;
+    if (result.event !== "none") events.push(result.event);
+  }
+  return { events, count: state.count };
+}
+
+const between = (frames: number) => ".".repeat(frames);
+
+describe("advanceRepCounter", () => {
+  it("counts a rep through every keyframe and back to the start", () => {
+    expect(countReps(`S${between(3)}K${between(3)}S`)).toEqual({ events: ["rep"], count: 1 });
+  });
+
+  it("reports a half rep after leaving the start for long enough without reaching the next keyframe", () => {
+    expect(countReps(`S${between(REP_LEAVE_START_FRAMES)}S`)).toEqual({ events: ["half_rep"], count: 0 });
+  });
+
+  it("ignores jitter at the edge of the start position", () => {
+    const jitter = `S${between(REP_LEAVE_START_FRAMES - 1)}`.repeat(10);
+    expect(countReps(`${jitter}S`)).toEqual({ events: [], count: 0 });
+  });
+
+  it("needs the frames outside the start in a row", () => {
+    const almost = between(REP_LEAVE_START_FRAMES - 1);
+    expect(countReps(`S${almost}S${almost}S`).events).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { REP_LEAVE_START_FRAMES } from '../constants';
+
+export interface RepCounterState {
+  stage: number; // Index of the last keyframe reached in order, -1 until the start position is found
+  leftStart: boolean; // True once the user has moved away from the start keyframe in the current rep
+  framesOutsideStart: number; // Frames in a row between positions while leftStart is false
+  count: number;
+}
+
+export type RepEvent = "none" | "rep" | "half_rep";
+
+export const INITIAL_REP_COUNTER: RepCounterState = { stage: -1, leftStart: false, framesOutsideStart: 0, count: 0 };
+
+/**
+ * Returns the index of the keyframe the user should reach next.
+ */
+export function getAwaitedKeyframe(state: RepCounterState, keyframeCount: number): number {
+  if (state.stage === -1 || keyframeCount === 0) return 0;
+  return (state.stage + 1) % keyframeCount;
+}
+
+/**
+ * Advances the rep counter by one frame.
+ * A rep is counted when the user passes through every keyframe in order and returns to the first one.
+ * Returning to the first keyframe before reaching the last one is reported as a half rep. The start only counts as
+ * left after REP_LEAVE_START_FRAMES frames in a row outside it, or once the next keyframe is reached.
+ */
+export function advanceRepCounter(
+  state: RepCounterState,
+  keyframeCount: number,
+  startMatched: boolean,
+  awaitedMatched: boolean
+): { state: RepCounterState, event: RepEvent } {
+  if (keyframeCount < 2) return { state, event: "none" };
+
+  if (state.stage === -1) {
+    return startMatched
+      ? { state: { ...state, stage: 0, leftStart: false, framesOutsideStart: 0 }, event: "none" }
+      : { state, event: "none" };
+  }
+
+  const awaited = getAwaitedKeyframe(state, keyframeCount);
+  if (awaited === 0) {
+    // All keyframes reached, waiting for the return to the start position
+    return startMatched
+      ? { state: { stage: 0, leftStart: false, framesOutsideStart: 0, count: state.count + 1 }, event: "rep" }
+      : { state, event: "none" };
+  }
+
+  if (awaitedMatched) {
+    return { state: { ...state, stage: awaited, leftStart: true, framesOutsideStart: 0 }, event: "none" };
+  }
+
+  if (startMatched) {
+    return state.leftStart
+      ? { state: { ...state, stage: 0, leftStart: false, framesOutsideStart: 0 }, event: "half_rep" }
+      : { state: { ...state, framesOutsideStart: 0 }, event: "none" };
+  }
+
+  // In between positions
+  if (state.leftStart) return { state, event: "none" };
+  const framesOutsideStart = state.framesOutsideStart + 1;
+  return { state: { ...state, framesOutsideStart, leftStart: framesOutsideStart >= REP_LEAVE_START_FRAMES }, event: "none" };
+}
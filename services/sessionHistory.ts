@@ -0,0 +1,135 @@
+import { WorkoutSession, PoseSessionMetrics, AngleDetail } from '../types';
+import { HISTORY_DB_NAME, HISTORY_DB_VERSION, HISTORY_SESSION_STORE } from '../constants';
+
+export interface PoseTrendPoint {
+  startedAt: number;
+  timeToFirstCorrectSeconds: number | null;
+  correctionSeconds: number;
+  bestScore?: number;
+}
+
+export interface PoseTrend {
+  poseName: string;
+  displayName: string;
+  points: PoseTrendPoint[]; // Oldest first
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not supported in this browser.'));
+  }
+  const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(HISTORY_SESSION_STORE)) {
+      const store = db.createObjectStore(HISTORY_SESSION_STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('startedAt', 'startedAt');
+    }
+  };
+  return requestToPromise(request);
+};
+
+/**
+ * Saves a finished session and returns its id.
+ */
+export async function saveSession(session: WorkoutSession): Promise<number> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(HISTORY_SESSION_STORE, 'readwrite').objectStore(HISTORY_SESSION_STORE);
+    const { id: _unsavedId, ...record } = session;
+    return (await requestToPromise(store.add(record))) as number;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads all saved sessions, newest first.
+ */
+export async function loadSessions(): Promise<WorkoutSession[]> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(HISTORY_SESSION_STORE, 'readonly').objectStore(HISTORY_SESSION_STORE);
+    const sessions = await requestToPromise(store.index('startedAt').getAll()) as WorkoutSession[];
+    return sessions.reverse();
+  } finally {
+    db.close();
+  }
+}
+
+export async function clearSessions(): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(HISTORY_SESSION_STORE, 'readwrite').objectStore(HISTORY_SESSION_STORE);
+    await requestToPromise(store.clear());
+  } finally {
+    db.close();
+  }
+}
+
+export function createPoseMetrics(poseName: string, displayName: string): PoseSessionMetrics {
+  return {
+    poseName,
+    displayName,
+    timeToFirstCorrectSeconds: null,
+    correctionSeconds: 0,
+    evaluatedFrames: 0,
+    bestScore: 0,
+    averageScore: 0,
+    jointFailures: {},
+  };
+}
+
+/**
+ * Adds one evaluated frame and its overall score to the pose metrics. Joints that could not be seen are not counted as failures.
+ */
+export function recordFrameMetrics(metrics: PoseSessionMetrics, angleDetails: AngleDetail[], score: number) {
+  metrics.evaluatedFrames++;
+  metrics.bestScore = Math.max(metrics.bestScore ?? 0, score);
+  metrics.averageScore = (metrics.averageScore ?? 0) + (score - (metrics.averageScore ?? 0)) / metrics.evaluatedFrames;
+  for (const detail of angleDetails) {
+    if (detail.is_correct || !detail.measured) continue;
+    const stats = metrics.jointFailures[detail.name] || { failedFrames: 0, averageAngle: 0, kind: detail.kind };
+    stats.averageAngle += (detail.angle - stats.averageAngle) / (stats.failedFrames + 1);
+    stats.failedFrames++;
+    metrics.jointFailures[detail.name] = stats;
+  }
+}
+
+/**
+ * Returns the joints of a pose sorted by how often they failed.
+ */
+export function getTopJointFailures(metrics: PoseSessionMetrics, limit: number = 3) {
+  return Object.entries(metrics.jointFailures)
+    .map(([jointName, stats]) => ({ jointName, ...stats }))
+    .sort((a, b) => b.failedFrames - a.failedFrames)
+    .slice(0, limit);
+}
+
+/**
+ * Groups the per-pose metrics of the given sessions into one trend per pose.
+ */
+export function getPoseTrends(sessions: WorkoutSession[], maxPoints: number): PoseTrend[] {
+  const trends: { [poseName: string]: PoseTrend } = {};
+  const oldestFirst = [...sessions].sort((a, b) => a.startedAt - b.startedAt);
+  for (const session of oldestFirst) {
+    for (const pose of session.poses) {
+      if (pose.skipped) continue; // Partial attempts would distort the trend
+      const trend = trends[pose.poseName] || { poseName: pose.poseName, displayName: pose.displayName, points: [] };
+      trend.points.push({
+        startedAt: session.startedAt,
+        timeToFirstCorrectSeconds: pose.timeToFirstCorrectSeconds,
+        correctionSeconds: pose.correctionSeconds,
+        bestScore: pose.bestScore,
+      });
+      trends[pose.poseName] = trend;
+    }
+  }
+  return Object.values(trends).map(trend => ({ ...trend, points: trend.points.slice(-maxPoints) }));
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { ExercisePhase, WorkoutStep } from '../types';
+import { DESCRIPTION_DISPLAY_TIME, IMAGE_DISPLAY_TIME } from '../constants';
+import { createManualClock } from './clock';
+import { INITIAL_WORKOUT_MACHINE, WorkoutEffect, WorkoutEvent, advanceWorkout, getNextWakeMs } from './workoutMachine';
+
+const progress = { poseNumber: 1, poseCount: 2, set: 1, sets: 1, round: 1, rounds: 1 };
+const PLAN: WorkoutStep[] = [
+  { kind: "pose", poseName: "squat", progress },
+  { kind: "rest", seconds: 5, progress: { ...progress, poseNumber: 2 } },
+  { kind: "pose", poseName: "lunge", progress: { ...progress, poseNumber: 2 } },
+];
+const INTRO_MS = (DESCRIPTION_DISPLAY_TIME + IMAGE_DISPLAY_TIME) * 1000;
+
+// Drives the machine the way useExerciseLogic does: one timer for the next wake-up, on a clock that only moves when advanced
+function startHarness() {
+  const clock = createManualClock(1000);
+  let state = { ...INITIAL_WORKOUT_MACHINE, phase: ExercisePhase.IDLE };
+  let effects: WorkoutEffect[] = [];
+  let timer: number | null = null;
+
+  const send = (event: WorkoutEvent) => {
+    const transition = advanceWorkout(state, event, PLAN, clock.now());
+    state = transition.state;
+    effects = [...effects, ...transition.effects];
+    if (timer !== null) clock.clearTimeout(timer);
+    const wakeMs = getNextWakeMs(state);
+    timer = wakeMs === null ? null : clock.setTimeout(() => send({ type: "TICK" }), wakeMs - clock.now());
+  };
+  const takeEffects = () => {
+    const taken = effects;
+    effects = [];
+    return taken;
+  };
+
+  return { clock, send, takeEffects, state: () => state };
+}
+
+const types = (effects: WorkoutEffect[]) => effects.map(effect => effect.type);
+
+describe("advanceWorkout", () => {
+  it("runs a pose from its introduction through framing and correction into the rest", () => {
+    const { clock, send, takeEffects, state } = startHarness();
+    send({ type: "START" });
+    expect(state().phase).toBe(ExercisePhase.DESCRIPTION);
+    expect(types(takeEffects())).toEqual(["workout_started", "step_started"]);
+
+    clock.advance(DESCRIPTION_DISPLAY_TIME * 1000);
+    expect(state().phase).toBe(ExercisePhase.IMAGE);
+    clock.advance(IMAGE_DISPLAY_TIME * 1000);
+    expect(state().phase).toBe(ExercisePhase.FRAMING);
+    expect(types(takeEffects())).toEqual(["framing_started"]);
+
+    // Framing has no deadline
+    clock.advance(60_000);
+    expect(state().phase).toBe(ExercisePhase.FRAMING);
+    send({ type: "FRAMED" });
+    expect(state().phase).toBe(ExercisePhase.CORRECTION);
+    expect(types(takeEffects())).toEqual(["correction_started"]);
+
+    send({ type: "POSE_COMPLETED" });
+    expect(state()).toMatchObject({ phase: ExercisePhase.REST, stepIndex: 1, restSecondsLeft: 5 });
+    expect(types(takeEffects())).toEqual(["pose_left", "step_started"]);
+
+    clock.advance(5000);
+    expect(types(takeEffects())).toEqual(["rest_countdown", "rest_countdown", "rest_countdown", "rest_countdown", "step_started"]);
+    expect(state()).toMatchObject({ phase: ExercisePhase.DESCRIPTION, stepIndex: 2 });
+  });
+
+  it("leaves paused time out of the phase deadlines", () => {
+    const { clock, send, takeEffects, state } = startHarness();
+    send({ type: "START" });
+    clock.advance(2000);
+    send({ type: "PAUSE" });
+    clock.advance(30_000);
+    expect(state().phase).toBe(ExercisePhase.DESCRIPTION);
+
+    takeEffects();
+    send({ type: "RESUME" });
+    expect(takeEffects()).toEqual([{ type: "resumed", pausedMs: 30_000 }]);
+
+    clock.advance(DESCRIPTION_DISPLAY_TIME * 1000 - 2000 - 1);
+    expect(state().phase).toBe(ExercisePhase.DESCRIPTION);
+    clock.advance(1);
+    expect(state().phase).toBe(ExercisePhase.IMAGE);
+  });
+
+  it("ignores FRAMED and POSE_COMPLETED while paused", () => {
+    const { clock, send, state } = startHarness();
+    send({ type: "START" });
+    clock.advance(INTRO_MS);
+    send({ type: "PAUSE" });
+    send({ type: "FRAMED" });
+    expect(state().phase).toBe(ExercisePhase.FRAMING);
+
+    send({ type: "RESUME" });
+    send({ type: "FRAMED" });
+    send({ type: "PAUSE" });
+    send({ type: "POSE_COMPLETED" });
+    expect(state()).toMatchObject({ phase: ExercisePhase.CORRECTION, stepIndex: 0 });
+  });
+
+  it("stays paused when skipping, and reports the running pause with the pose left", () => {
+    const { clock, send, takeEffects, state } = startHarness();
+    send({ type: "START" });
+    clock.advance(INTRO_MS);
+    send({ type: "FRAMED" });
+    send({ type: "PAUSE" });
+    clock.advance(4000);
+    takeEffects();
+
+    send({ type: "SKIP" });
+    expect(state()).toMatchObject({ phase: ExercisePhase.REST, stepIndex: 1, pausedAtMs: clock.now() });
+    expect(takeEffects()).toEqual([{ type: "pose_left", reason: "skipped", pausedMs: 4000 }, { type: "step_started", stepIndex: 1 }]);
+
+    // The rest doesn't count down until the workout resumes
+    clock.advance(10_000);
+    expect(state().phase).toBe(ExercisePhase.REST);
+    expect(types(takeEffects())).toEqual([]);
+
+    send({ type: "RESUME" });
+    clock.advance(4999);
+    expect(state().phase).toBe(ExercisePhase.REST);
+    clock.advance(1);
+    expect(state()).toMatchObject({ phase: ExercisePhase.DESCRIPTION, stepIndex: 2 });
+  });
+
+  it("stays paused when going back to the previous pose", () => {
+    const { clock, send, takeEffects, state } = startHarness();
+    send({ type: "START" });
+    clock.advance(INTRO_MS);
+    send({ type: "FRAMED" });
+    send({ type: "POSE_COMPLETED" });
+    send({ type: "PAUSE" });
+    takeEffects();
+
+    send({ type: "PREVIOUS" });
+    expect(state()).toMatchObject({ phase: ExercisePhase.DESCRIPTION, stepIndex: 0, pausedAtMs: clock.now() });
+    // Leaving a rest is not reported
+    expect(types(takeEffects())).toEqual(["step_started"]);
+
+    clock.advance(INTRO_MS);
+    expect(state().phase).toBe(ExercisePhase.DESCRIPTION);
+    send({ type: "RESUME" });
+    clock.advance(DESCRIPTION_DISPLAY_TIME * 1000);
+    expect(state().phase).toBe(ExercisePhase.IMAGE);
+  });
+
+  it("drops a running workout on RESET", () => {
+    const { clock, send, takeEffects, state } = startHarness();
+    send({ type: "START" });
+    clock.advance(INTRO_MS);
+    send({ type: "PAUSE" });
+    takeEffects();
+
+    send({ type: "RESET" });
+    expect(state()).toEqual({ ...INITIAL_WORKOUT_MACHINE, phase: ExercisePhase.IDLE });
+    expect(types(takeEffects())).toEqual(["workout_cleared"]);
+    // Nothing left to wake up for
+    clock.advance(60_000);
+    expect(types(takeEffects())).toEqual([]);
+
+    send({ type: "RESET" });
+    expect(types(takeEffects())).toEqual([]);
+  });
+});
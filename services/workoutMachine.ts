@@ -0,0 +1,194 @@
+import { ExercisePhase, WorkoutStep } from '../types';
+import { DESCRIPTION_DISPLAY_TIME, IMAGE_DISPLAY_TIME } from '../constants';
+
+export interface WorkoutMachineState {
+  phase: ExercisePhase;
+  stepIndex: number; // Index into the workout plan, -1 outside a workout
+  phaseEndsAtMs: number | null; // Deadline of the timed phases (DESCRIPTION, IMAGE and REST), null otherwise
+  restSecondsLeft: number; // Countdown during REST
+  pausedAtMs: number | null; // Null unless paused
+}
+
+export type WorkoutEvent =
+  | { type: "CONFIG_LOADED" }
+  | { type: "CONFIG_FAILED" }
+  | { type: "ENGINE_READY" } // The pose landmarker finished initializing
+  | { type: "ENGINE_FAILED" }
+  | { type: "CAMERA_FAILED" }
+  | { type: "INPUT_CHANGED" } // A new input was picked after a camera error; the engine restarts for it
+  | { type: "START" }
+  | { type: "TICK" } // Time has passed, timed phases end once their deadline is reached
+  | { type: "FRAMED" } // The user stayed in view for the current pose long enough
+  | { type: "POSE_COMPLETED" } // The hold or the target reps of the current pose were reached
+  | { type: "SKIP" }
+  | { type: "PREVIOUS" }
+  | { type: "PAUSE" }
+  | { type: "RESUME" }
+  | { type: "RESET" };
+
+// What the caller has to do after a transition; the machine itself never speaks or touches the session
+export type WorkoutEffect =
+  | { type: "workout_started" }
+  | { type: "step_started"; stepIndex: number } // A pose is introduced or a rest begins
+  | { type: "framing_started" }
+  | { type: "correction_started" }
+  | { type: "rest_countdown"; secondsLeft: number }
+  // Discarded poses are repeated and left out of the session; pausedMs is how long a pause still running has lasted
+  | { type: "pose_left"; reason: "completed" | "skipped" | "discarded"; pausedMs: number }
+  | { type: "paused" }
+  | { type: "resumed"; pausedMs: number }
+  | { type: "workout_completed" }
+  | { type: "workout_cleared" }; // The running or completed workout was dropped
+
+export interface WorkoutTransition {
+  state: WorkoutMachineState;
+  effects: WorkoutEffect[];
+}
+
+export const INITIAL_WORKOUT_MACHINE: WorkoutMachineState = {
+  phase: ExercisePhase.LOADING_CONFIG,
+  stepIndex: -1,
+  phaseEndsAtMs: null,
+  restSecondsLeft: 0,
+  pausedAtMs: null,
+};
+
+const RUNNING_PHASES = [ExercisePhase.DESCRIPTION, ExercisePhase.IMAGE, ExercisePhase.FRAMING, ExercisePhase.CORRECTION, ExercisePhase.REST];
+
+export function isWorkoutRunning(state: WorkoutMachineState): boolean {
+  return RUNNING_PHASES.includes(state.phase);
+}
+
+/**
+ * Returns the pose step before the given one, passing over rests, or -1 if there is none.
+ */
+export function getPreviousPoseIndex(plan: WorkoutStep[], stepIndex: number): number {
+  for (let index = Math.min(stepIndex, plan.length) - 1; index >= 0; index--) {
+    if (plan[index].kind === "pose") return index;
+  }
+  return -1;
+}
+
+/**
+ * Returns when the machine next needs a TICK, or null if nothing happens until another event arrives.
+ * During a rest this is every whole second, so the countdown can be shown and spoken.
+ */
+export function getNextWakeMs(state: WorkoutMachineState): number | null {
+  if (state.pausedAtMs !== null || state.phaseEndsAtMs === null) return null;
+  if (state.phase === ExercisePhase.REST) {
+    return state.phaseEndsAtMs - Math.max(0, state.restSecondsLeft - 1) * 1000;
+  }
+  return state.phaseEndsAtMs;
+}
+
+const idleState = (phase: ExercisePhase): WorkoutMachineState => ({ ...INITIAL_WORKOUT_MACHINE, phase });
+
+// Skipping or going back while paused stays paused; the new step's deadline is shifted from its start on resume
+function enterStep(plan: WorkoutStep[], stepIndex: number, nowMs: number, effects: WorkoutEffect[], paused: boolean = false): WorkoutTransition {
+  const pausedAtMs = paused ? nowMs : null;
+  const step = plan[stepIndex];
+  if (!step) {
+    return { state: idleState(ExercisePhase.COMPLETED), effects: [...effects, { type: "workout_completed" }] };
+  }
+  effects = [...effects, { type: "step_started", stepIndex }];
+  if (step.kind === "rest") {
+    return {
+      state: { phase: ExercisePhase.REST, stepIndex, phaseEndsAtMs: nowMs + step.seconds * 1000, restSecondsLeft: step.seconds, pausedAtMs },
+      effects,
+    };
+  }
+  return {
+    state: { phase: ExercisePhase.DESCRIPTION, stepIndex, phaseEndsAtMs: nowMs + DESCRIPTION_DISPLAY_TIME * 1000, restSecondsLeft: 0, pausedAtMs },
+    effects,
+  };
+}
+
+// Leaving a pose step is reported, leaving a rest is not
+function leaveStep(state: WorkoutMachineState, plan: WorkoutStep[], reason: "completed" | "skipped" | "discarded", nowMs: number): WorkoutEffect[] {
+  const pausedMs = state.pausedAtMs === null ? 0 : Math.max(0, nowMs - state.pausedAtMs);
+  return plan[state.stepIndex]?.kind === "pose" ? [{ type: "pose_left", reason, pausedMs }] : [];
+}
+
+function tick(state: WorkoutMachineState, plan: WorkoutStep[], nowMs: number): WorkoutTransition {
+  const { phaseEndsAtMs } = state;
+  if (state.pausedAtMs !== null || phaseEndsAtMs === null) return { state, effects: [] };
+
+  if (state.phase === ExercisePhase.REST) {
+    if (nowMs >= phaseEndsAtMs) return enterStep(plan, state.stepIndex + 1, nowMs, []);
+    const secondsLeft = Math.ceil((phaseEndsAtMs - nowMs) / 1000);
+    if (secondsLeft >= state.restSecondsLeft) return { state, effects: [] };
+    return { state: { ...state, restSecondsLeft: secondsLeft }, effects: [{ type: "rest_countdown", secondsLeft }] };
+  }
+
+  if (nowMs < phaseEndsAtMs) return { state, effects: [] };
+  if (state.phase === ExercisePhase.DESCRIPTION) {
+    // Measured from the deadline rather than from now, so a late tick doesn't stretch the workout
+    return { state: { ...state, phase: ExercisePhase.IMAGE, phaseEndsAtMs: phaseEndsAtMs + IMAGE_DISPLAY_TIME * 1000 }, effects: [] };
+  }
+  if (state.phase === ExercisePhase.IMAGE) {
+    // Framing has no deadline, it lasts until the user is in view
+    return { state: { ...state, phase: ExercisePhase.FRAMING, phaseEndsAtMs: null }, effects: [{ type: "framing_started" }] };
+  }
+  return { state, effects: [] };
+}
+
+/**
+ * Applies one event to the workout flow. Events that don't apply to the current phase leave the state unchanged.
+ * The plan and the current time are passed in, so the machine can be driven without real time passing.
+ */
+export function advanceWorkout(state: WorkoutMachineState, event: WorkoutEvent, plan: WorkoutStep[], nowMs: number): WorkoutTransition {
+  const unchanged: WorkoutTransition = { state, effects: [] };
+  const running = isWorkoutRunning(state);
+  const paused = state.pausedAtMs !== null;
+  // Errors and resets drop whatever workout was on screen
+  const clearEffects: WorkoutEffect[] = running || state.phase === ExercisePhase.COMPLETED ? [{ type: "workout_cleared" }] : [];
+
+  switch (event.type) {
+    case "CONFIG_LOADED":
+      return state.phase === ExercisePhase.LOADING_CONFIG ? { state: idleState(ExercisePhase.INITIALIZING_POSE), effects: [] } : unchanged;
+    case "CONFIG_FAILED":
+      return state.phase === ExercisePhase.LOADING_CONFIG ? { state: idleState(ExercisePhase.CONFIG_ERROR), effects: [] } : unchanged;
+    case "ENGINE_READY":
+      return state.phase === ExercisePhase.INITIALIZING_POSE ? { state: idleState(ExercisePhase.IDLE), effects: [] } : unchanged;
+    case "ENGINE_FAILED":
+    case "CAMERA_FAILED":
+      if (state.phase === ExercisePhase.LOADING_CONFIG || state.phase === ExercisePhase.CONFIG_ERROR || state.phase === ExercisePhase.POSE_INIT_ERROR) {
+        return unchanged;
+      }
+      return {
+        state: idleState(event.type === "ENGINE_FAILED" ? ExercisePhase.POSE_INIT_ERROR : ExercisePhase.CAMERA_ERROR),
+        effects: clearEffects,
+      };
+    case "INPUT_CHANGED":
+      return state.phase === ExercisePhase.CAMERA_ERROR ? { state: idleState(ExercisePhase.INITIALIZING_POSE), effects: [] } : unchanged;
+    case "START":
+      return state.phase === ExercisePhase.IDLE ? enterStep(plan, 0, nowMs, [{ type: "workout_started" }]) : unchanged;
+    case "TICK":
+      return running ? tick(state, plan, nowMs) : unchanged;
+    case "FRAMED":
+      if (state.phase !== ExercisePhase.FRAMING || paused) return unchanged;
+      return { state: { ...state, phase: ExercisePhase.CORRECTION }, effects: [{ type: "correction_started" }] };
+    case "POSE_COMPLETED":
+      if (state.phase !== ExercisePhase.CORRECTION || paused) return unchanged;
+      return enterStep(plan, state.stepIndex + 1, nowMs, leaveStep(state, plan, "completed", nowMs));
+    case "SKIP":
+      return running ? enterStep(plan, state.stepIndex + 1, nowMs, leaveStep(state, plan, "skipped", nowMs), paused) : unchanged;
+    case "PREVIOUS": {
+      if (!running) return unchanged;
+      const previousIndex = getPreviousPoseIndex(plan, state.stepIndex);
+      return enterStep(plan, previousIndex !== -1 ? previousIndex : state.stepIndex, nowMs, leaveStep(state, plan, "discarded", nowMs), paused);
+    }
+    case "PAUSE":
+      return running && !paused ? { state: { ...state, pausedAtMs: nowMs }, effects: [{ type: "paused" }] } : unchanged;
+    case "RESUME": {
+      if (state.pausedAtMs === null) return unchanged;
+      const pausedMs = Math.max(0, nowMs - state.pausedAtMs);
+      return {
+        state: { ...state, pausedAtMs: null, phaseEndsAtMs: state.phaseEndsAtMs === null ? null : state.phaseEndsAtMs + pausedMs },
+        effects: [{ type: "resumed", pausedMs }],
+      };
+    }
+    case "RESET":
+      return clearEffects.length > 0 ? { state: idleState(ExercisePhase.IDLE), effects: clearEffects } : unchanged;
+  }
+}
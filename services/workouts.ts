@@ -0,0 +1,107 @@
+import { Difficulty, ExerciseConfig, SequenceEntry, Workout, WorkoutProgress, WorkoutStep } from '../types';
+import { getPoseTargets } from './difficulty';
+import {
+  DEFAULT_WORKOUT_ID,
+  DEFAULT_WORKOUT_TITLE,
+  DESCRIPTION_DISPLAY_TIME,
+  IMAGE_DISPLAY_TIME,
+  DEFAULT_TARGET_REPS,
+  ESTIMATED_SECONDS_PER_REP,
+  DEFAULT_DIFFICULTY,
+} from '../constants';
+
+/**
+ * Lists the workouts defined in a config.
+ * A top-level `sequence` (the single-routine format) is listed first as the default workout.
+ */
+export function getWorkouts(config: ExerciseConfig): Workout[] {
+  const workouts: Workout[] = [];
+  if (config.sequence) {
+    workouts.push({
+      id: DEFAULT_WORKOUT_ID,
+      title: DEFAULT_WORKOUT_TITLE,
+      sequence: config.sequence,
+      rounds: config.rounds,
+      round_rest_seconds: config.round_rest_seconds,
+    });
+  }
+  for (const workoutId in config.workouts) {
+    if (!config.workouts.hasOwnProperty(workoutId)) continue;
+    workouts.push({ ...config.workouts[workoutId], id: workoutId });
+  }
+  return workouts;
+}
+
+export const getEntryPoseName = (entry: SequenceEntry): string | null =>
+  typeof entry === 'string' ? entry : 'pose' in entry ? entry.pose : null;
+
+export const getEntrySets = (entry: SequenceEntry): number =>
+  typeof entry === 'string' ? 1 : 'pose' in entry ? Math.max(1, entry.sets ?? 1) : 0;
+
+/**
+ * Expands a workout's sets and rounds into the steps it is played as.
+ * Rests of 0 seconds are dropped, and so are rests at the very start or end since nothing precedes or follows them.
+ */
+export function buildWorkoutPlan(workout: Workout): WorkoutStep[] {
+  const rounds = Math.max(1, workout.rounds ?? 1);
+  const poseCount = rounds * workout.sequence.reduce((total, entry) => total + getEntrySets(entry), 0);
+  const steps: WorkoutStep[] = [];
+  let pendingRests: number[] = [];
+  let poseNumber = 0;
+
+  const addRest = (seconds: number | undefined) => {
+    if (seconds && seconds > 0 && poseNumber > 0) pendingRests.push(seconds);
+  };
+  const addPose = (poseName: string, set: number, sets: number, round: number) => {
+    const progress: WorkoutProgress = { poseNumber: ++poseNumber, poseCount, set, sets, round, rounds };
+    // A rest shows the progress of the pose it leads into
+    pendingRests.forEach(seconds => steps.push({ kind: "rest", seconds, progress }));
+    pendingRests = [];
+    steps.push({ kind: "pose", poseName, progress });
+  };
+
+  for (let round = 1; round <= rounds; round++) {
+    if (round > 1) addRest(workout.round_rest_seconds);
+    for (const entry of workout.sequence) {
+      if (typeof entry === 'string') {
+        addPose(entry, 1, 1, round);
+      } else if ('pose' in entry) {
+        const sets = getEntrySets(entry);
+        for (let set = 1; set <= sets; set++) {
+          if (set > 1) addRest(entry.rest_seconds);
+          addPose(entry.pose, set, sets, round);
+        }
+      } else {
+        addRest(entry.rest_seconds);
+      }
+    }
+  }
+  return steps;
+}
+
+/**
+ * Formats a position in the workout, e.g. "Pose 4/12 · Set 2/3 · Round 1/2". Sets and rounds are left out when there is only one.
+ */
+export function formatWorkoutProgress(progress: WorkoutProgress): string {
+  const parts = [`Pose ${progress.poseNumber}/${progress.poseCount}`];
+  if (progress.sets > 1) parts.push(`Set ${progress.set}/${progress.sets}`);
+  if (progress.rounds > 1) parts.push(`Round ${progress.round}/${progress.rounds}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Returns the workout's estimated duration in minutes, falling back to an estimate from its poses and rests.
+ */
+export function getWorkoutDurationMinutes(workout: Workout, config: ExerciseConfig, difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+  if (workout.estimated_duration_minutes !== undefined) return workout.estimated_duration_minutes;
+
+  const totalSeconds = buildWorkoutPlan(workout).reduce((total, step) => {
+    if (step.kind === "rest") return total + step.seconds;
+    const pose = config.poses[step.poseName];
+    const exerciseSeconds = pose?.mode === "reps"
+      ? (pose.target_reps || DEFAULT_TARGET_REPS) * ESTIMATED_SECONDS_PER_REP
+      : getPoseTargets(pose, difficulty).holdSeconds;
+    return total + DESCRIPTION_DISPLAY_TIME + IMAGE_DISPLAY_TIME + exerciseSeconds;
+  }, 0);
+  return Math.max(1, Math.round(totalSeconds / 60));
+}
@@ -9,41 +9,241 @@ export interface NormalizedLandmark {
 
 export type NormalizedLandmarkList = NormalizedLandmark[];
 
+// World landmarks are in meters, centered between the hips
+export interface WorldLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export type WorldLandmarkList = WorldLandmark[];
+
+// Endpoints A and C may also be a ReferenceAxis, measuring the angle of the B-to-other-endpoint segment from that axis
 export interface JointLandmarks {
-  A: string; // Landmark name (e.g., "LEFT_SHOULDER")
-  B: string;
+  A: string; // Landmark name (e.g., "LEFT_SHOULDER"), or a virtual landmark
+  B: string; // The vertex
   C: string;
 }
 
+// "VERTICAL" points up and "HORIZONTAL" points to the image right (the subject's left when facing the camera)
+export type ReferenceAxis = "VERTICAL" | "HORIZONTAL";
+
+// A derived landmark, e.g. MID_HIP as the average of LEFT_HIP and RIGHT_HIP
+export interface VirtualLandmark {
+  average: string[]; // Names of MediaPipe landmarks
+}
+
+export interface VirtualLandmarks {
+  [name: string]: VirtualLandmark;
+}
+
+export type AngleMode = "2d" | "3d";
+
 export interface JointDefinition {
   landmarks: JointLandmarks;
+  angle_mode?: AngleMode; // Overrides ExerciseConfig.angle_mode for this joint
+}
+
+export type CriterionKind = "angle" | "offset" | "distance" | "symmetry";
+
+// Either plain text, or translations keyed by locale (e.g. { "en": "Stand up straight.", "de": "Steh gerade." })
+export type LocalizedText = string | { [locale: string]: string };
+
+export interface CriterionFeedback {
+  below_min: LocalizedText;
+  above_max: LocalizedText;
 }
 
-export interface JointCriterion {
+export interface CriterionBase {
+  priority?: number; // Higher is spoken first when several corrections apply, default 0
+  weight?: number; // Share of the overall pose score, default 1; 0 leaves the criterion out of the score
+}
+
+// Keyed by a joint_definitions name
+export interface JointCriterion extends CriterionBase {
+  kind?: "angle"; // Default
   angle_range: [number, number]; // [min_angle, max_angle]
-  feedback: {
-    below_min: string;
-    above_max: string;
-  };
+  feedback: CriterionFeedback;
+}
+
+// Positional criteria are measured in body lengths: the torso (mid-shoulders to mid-hips) unless normalize_by is set.
+// A null range bound is open-ended.
+export type BodyLengthRange = [number | null, number | null];
+
+/**
+ * Signed offset of one landmark from another along an axis.
+ * "x" is positive towards the subject's left (image right when facing the camera), "y" is positive upwards.
+ */
+export interface OffsetCriterion extends CriterionBase {
+  kind: "offset";
+  landmark: string;
+  reference: string;
+  axis: "x" | "y";
+  absolute?: boolean; // Compare the size of the offset only, e.g. for "hips level"
+  range: BodyLengthRange;
+  normalize_by?: [string, string]; // Landmarks whose distance is used as the body length
+  feedback: CriterionFeedback;
+}
+
+// Straight-line distance between two landmarks
+export interface DistanceCriterion extends CriterionBase {
+  kind: "distance";
+  landmarks: [string, string];
+  range: BodyLengthRange;
+  normalize_by?: [string, string];
+  feedback: CriterionFeedback;
+}
+
+// Two joint angles, usually a left/right pair, that should stay close to each other
+export interface SymmetryCriterion extends CriterionBase {
+  kind: "symmetry";
+  joints: [string, string]; // joint_definitions names
+  max_difference: number; // Degrees
+  feedback: { above_max: LocalizedText };
+}
+
+export type PoseCriterion = JointCriterion | OffsetCriterion | DistanceCriterion | SymmetryCriterion;
+
+export interface PoseCriteria {
+  [name: string]: PoseCriterion; // Joint name for angle criteria, any descriptive name otherwise
+}
+
+export type PoseMode = "hold" | "reps";
+
+// Which way the user faces the camera; "left_side" has the left side of the body towards the camera
+export type BodyOrientation = "front" | "left_side" | "right_side" | "back";
+
+export type LandmarkFilterType = "none" | "ema" | "one_euro";
+
+export interface SmoothingSettings {
+  filter: LandmarkFilterType;
+  alpha?: number; // "ema": weight of the newest frame, 0 to 1
+  min_cutoff?: number; // "one_euro": cutoff frequency (Hz) when still; lower is smoother
+  beta?: number; // "one_euro": how quickly the cutoff rises with speed; higher lags less
+  d_cutoff?: number; // "one_euro": cutoff frequency (Hz) for the speed estimate
+}
+
+export interface RepKeyframe {
+  name?: string; // e.g. "top", "bottom"
+  criteria: PoseCriteria;
 }
 
 export interface PoseData {
-  display_name?: string;
-  description?: string;
+  display_name?: LocalizedText;
+  description?: LocalizedText;
   image_path?: string; // URL to the image
-  criteria: {
-    [jointName: string]: JointCriterion;
-  };
+  mirror?: string; // Name of an opposite-side pose to generate from this one by swapping left and right
+  mirror_of?: string; // Set on generated poses: the pose they mirror. Their image is shown flipped
+  mode?: PoseMode; // Defaults to "hold"
+  orientation?: BodyOrientation; // Viewpoint the criteria are written for; the user is told to turn until it matches
+  smoothing?: SmoothingSettings; // Landmark filtering before the criteria are checked
+  hold_seconds?: number; // How long a "hold" pose must be held, before difficulty scaling
+  tolerance?: number; // Degrees allowed outside each angle_range, before difficulty scaling
+  position_tolerance?: number; // Body lengths allowed outside each offset/distance range, before difficulty scaling
+  hold_grace_seconds?: number; // Dropouts shorter than this pause the hold instead of resetting it
+  // In "reps" mode these are checked on every frame, alongside the current keyframe
+  criteria: PoseCriteria;
+  keyframes?: RepKeyframe[]; // Ordered positions making up one rep ("reps" mode only)
+  target_reps?: number;
+  half_rep_feedback?: LocalizedText; // Shown/spoken when the user returns to the start without finishing a rep
+}
+
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+
+export interface DifficultyLevel {
+  label: string;
+  toleranceScale: number; // Multiplies the pose tolerance
+  holdScale: number; // Multiplies the pose hold time
+}
+
+// Saved in localStorage; the locale also selects translations from the config
+export interface SpeechSettings {
+  locale: string; // BCP 47 tag, e.g. "en" or "de-DE"
+  voiceURI: string | null; // Null picks the browser's first voice for the locale
+  rate: number; // 0.1 to 10
+  pitch: number; // 0 to 2
+  volume: number; // 0 to 1
+}
+
+export type PoseModelVariant = "lite" | "full" | "heavy"; // Larger models are more accurate and slower
+export type InferenceDelegate = "GPU" | "CPU";
+
+// Saved in localStorage; changing them restarts the pose landmarker
+export interface EngineSettings {
+  model: PoseModelVariant;
+  delegate: InferenceDelegate; // Preferred backend; GPU falls back to CPU when it can't start
+  numPoses: number; // Most people detected per frame
+  minPoseDetectionConfidence: number; // 0 to 1
+  minPosePresenceConfidence: number;
+  minTrackingConfidence: number;
+}
+
+// The backend the pose landmarker actually started with
+export interface EngineStatus {
+  model: PoseModelVariant;
+  delegate: InferenceDelegate;
+  fallbackReason: string | null; // Why GPU could not be used, null unless it fell back to CPU
+}
+
+// A pose done for several sets in a row
+export interface SequencePoseEntry {
+  pose: string;
+  sets?: number; // Default 1
+  rest_seconds?: number; // Rest between the sets
+}
+
+export interface SequenceRestEntry {
+  rest_seconds: number;
+}
+
+// A pose name is shorthand for a single set of that pose
+export type SequenceEntry = string | SequencePoseEntry | SequenceRestEntry;
+
+export interface WorkoutData {
+  title: string;
+  description?: string;
+  estimated_duration_minutes?: number; // Estimated from the poses if omitted
+  sequence: SequenceEntry[];
+  rounds?: number; // How many times the whole sequence is repeated, default 1
+  round_rest_seconds?: number; // Rest between rounds
+}
+
+// Position within the workout, all counts 1-based
+export interface WorkoutProgress {
+  poseNumber: number; // Among all pose steps of the workout
+  poseCount: number;
+  set: number;
+  sets: number;
+  round: number;
+  rounds: number;
+}
+
+// One step of a workout with its sets and rounds expanded
+export type WorkoutStep =
+  | { kind: "pose"; poseName: string; progress: WorkoutProgress }
+  | { kind: "rest"; seconds: number; progress: WorkoutProgress }; // Progress of the pose that follows
+
+// A workout from the config together with its id
+export interface Workout extends WorkoutData {
+  id: string;
 }
 
 export interface ExerciseConfig {
+  angle_mode?: AngleMode; // Default for all joints, "2d" if omitted
+  virtual_landmarks?: VirtualLandmarks; // Usable wherever a landmark name is expected
   joint_definitions: {
     [jointName: string]: JointDefinition;
   };
   poses: {
     [poseName: string]: PoseData;
   };
-  sequence: string[]; // Array of pose names
+  sequence?: SequenceEntry[]; // Single-routine format, loaded as the default workout
+  rounds?: number; // For the single-routine format
+  round_rest_seconds?: number;
+  workouts?: {
+    [workoutId: string]: WorkoutData;
+  };
 }
 
 export interface LandmarkPoint {
@@ -55,7 +255,12 @@ export interface LandmarkPoint {
 
 export interface AngleDetail {
   name: string;
-  angle: number;
+  kind: CriterionKind;
+  angle: number; // Degrees for angle and symmetry criteria, body lengths otherwise; -1 for angles that could not be measured
+  measured: boolean; // False when the landmarks were missing or not visible
+  priority: number; // From the criterion, for choosing which correction to speak
+  score: number; // 0 to 100: 100 inside the range, lower the further outside it; 0 when not measured
+  weight: number; // From the criterion, for the overall pose score
   is_correct: boolean;
   feedback: string;
   p1: { x: number; y: number }; // Screen coordinates
@@ -64,7 +269,120 @@ export interface AngleDetail {
   color: string;
 }
 
+export interface JointFailureStats {
+  failedFrames: number; // Frames where the joint was visible but out of range
+  averageAngle: number; // Mean measured value over the failed frames, in the criterion's unit
+  kind?: CriterionKind; // Missing on sessions saved before positional criteria existed
+}
+
+export interface PoseSessionMetrics {
+  poseName: string;
+  displayName: string;
+  timeToFirstCorrectSeconds: number | null; // Null if the pose was never correct
+  correctionSeconds: number; // Total time spent in CORRECTION for this pose
+  evaluatedFrames: number;
+  skipped?: boolean; // The user moved on before completing the pose
+  // Overall pose score (0 to 100) over the evaluated frames; missing on sessions saved before scoring existed
+  bestScore?: number;
+  averageScore?: number;
+  jointFailures: {
+    [jointName: string]: JointFailureStats;
+  };
+}
+
+export interface WorkoutSession {
+  id?: number; // Assigned by IndexedDB when saved
+  workoutId: string;
+  workoutTitle: string;
+  difficulty?: Difficulty; // Missing on sessions saved before difficulty levels existed
+  startedAt: number; // Epoch ms
+  finishedAt: number;
+  poses: PoseSessionMetrics[];
+}
+
 export type PoseLandmarks = NormalizedLandmarkList | null; // Updated type
+export type PoseWorldLandmarks = WorldLandmarkList | null;
+
+// A detected person, with an id that stays the same across frames while they remain in view
+export interface TrackedPerson {
+  id: number;
+  landmarks: NormalizedLandmarkList;
+  worldLandmarks: PoseWorldLandmarks;
+}
+
+// One processed video frame, as passed from VideoFeed to the exercise logic
+export interface PoseFrame {
+  landmarks: PoseLandmarks; // The person being coached
+  worldLandmarks: PoseWorldLandmarks;
+  people?: TrackedPerson[]; // Everyone in view; missing in traces recorded before multi-person tracking
+  frameWidth: number;
+  frameHeight: number;
+  timestampMs: number; // Wall clock for the camera, media time for video files
+}
+
+// What the user has to do so the landmarks of the current pose are in view, see services/framing.ts
+export type FramingGuidance =
+  | "step_into_view" | "step_back" | "step_closer" | "move_left" | "move_right"
+  | "turn_sideways" // For one-sided poses without an orientation
+  | "face_camera" | "turn_left_side" | "turn_right_side" | "turn_back";
+
+// What a pose needs to be measured, see services/framing.ts
+export interface FramingRequirements {
+  landmarks: string[]; // MediaPipe landmark names
+  orientation: BodyOrientation | null;
+}
+
+export interface FramingStatus {
+  guidance: FramingGuidance | null; // Null once the user is framed
+  message: string; // Spoken and shown, empty once framed
+  progress: number; // 0 to 1, of the time the user must stay framed before CORRECTION starts
+}
+
+// "single" coaches one person, "group" coaches everyone in view against the same pose (partner or class mode)
+export type TrackingMode = "single" | "group";
+
+// Progress of one person in group mode, drawn next to them
+export interface ParticipantProgress {
+  personId: number;
+  progress: number; // 0 to 1, of the hold or the target reps
+  completed: boolean;
+}
+
+// Text the app speaks and shows itself, as opposed to the text from the config; see services/messages.ts
+export interface AppMessages {
+  nextPose: (displayName: string, description: string) => string;
+  defaultDescription: string; // For poses without a description
+  rest: (seconds: number, upNext: string) => string; // upNext is empty after the last pose
+  workoutCompleted: string;
+  workoutCompleteTitle: string;
+  getIntoPosition: string;
+  startReps: (displayName: string) => string;
+  startHold: (displayName: string) => string;
+  poseCompleted: string;
+  paused: string;
+  resuming: string;
+  halfRep: string; // For poses without half_rep_feedback
+  personDone: (personId: number) => string;
+  cannotSeeAnyone: string;
+  waitingFor: (personIds: number[]) => string;
+  cannotSeeYou: string;
+  framing: Record<FramingGuidance, string>;
+  notVisible: (criterionName: string) => string;
+  pointsNotFound: (criterionName: string) => string;
+  landmarkDefinitionError: (criterionName: string) => string;
+  voicePreview: string;
+  // Pose authoring, see hooks/usePoseAuthoring.ts
+  authoringCountdown: (seconds: number) => string;
+  authoringSampling: string;
+  authoringDone: string;
+  proposedBelowMin: (jointLabel: string) => string; // Generic feedback for a proposed criterion
+  proposedAboveMax: (jointLabel: string) => string;
+}
+
+export type InputSource =
+  | { kind: "camera"; deviceId?: string }
+  | { kind: "file"; file: File }
+  | { kind: "trace"; frames: PoseFrame[]; name: string }; // Recorded landmarks, played back without MediaPipe
 
 export enum ExercisePhase {
   IDLE = "IDLE",
@@ -74,7 +392,9 @@ export enum ExercisePhase {
   POSE_INIT_ERROR = "POSE_INIT_ERROR", // New phase for pose landmarker setup error
   DESCRIPTION = "DESCRIPTION",
   IMAGE = "IMAGE",
+  FRAMING = "FRAMING", // Waiting for the user to be in the right place before CORRECTION
   CORRECTION = "CORRECTION",
+  REST = "REST",
   COMPLETED = "COMPLETED",
   CAMERA_ERROR = "CAMERA_ERROR",
 }
\ No newline at end of file
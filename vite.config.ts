@@ -1,5 +1,67 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+const SERVICE_WORKER_FILE = 'sw.js';
+const REQUIRED_MODEL = 'models/pose_landmarker_lite.task'; // The default engine settings load it
+const MODEL_CHECKSUMS_FILE = path.resolve(__dirname, 'scripts/model-checksums.json');
+
+// Lists the files under dir as URL paths, e.g. /models/pose_landmarker_lite.task
+const listPublicFiles = (dir: string): string[] =>
+  readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => '/' + path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+
+// Compares the model with its pinned SHA-256 from scripts/fetch-model.js, if one is pinned
+const checkModelChecksum = (modelFile: string): string | null => {
+  if (!existsSync(MODEL_CHECKSUMS_FILE)) return null;
+  const expected = JSON.parse(readFileSync(MODEL_CHECKSUMS_FILE, 'utf8')).lite;
+  const actual = createHash('sha256').update(readFileSync(modelFile)).digest('hex');
+  return expected && actual !== expected ? `${modelFile} does not match its pinned SHA-256.` : null;
+};
+
+/**
+ * Fills the service worker's PRECACHE_MANIFEST with every built and public file.
+ * The version changes with any of them, so a new build installs a new service worker and cache.
+ */
+function precacheManifest(publicDir: string): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    // A build without the model installs and precaches fine but can't detect poses, so it is refused
+    // unless ALLOW_MISSING_MODEL is set, e.g. for a build that only checks the code compiles
+    buildStart() {
+      const modelFile = path.join(publicDir, REQUIRED_MODEL);
+      const problem = !existsSync(modelFile)
+        ? `${modelFile} is missing. Run \`npm run fetch-models lite\` or download it by hand.`
+        : checkModelChecksum(modelFile);
+      if (!problem) return;
+      if (process.env.ALLOW_MISSING_MODEL) this.warn(`${problem} The built app will not be able to detect poses.`);
+      else this.error(`${problem} Set ALLOW_MISSING_MODEL=1 to build without it.`);
+    },
+    generateBundle(_options, bundle) {
+      const serviceWorker = bundle[SERVICE_WORKER_FILE];
+      if (!serviceWorker || serviceWorker.type !== 'chunk') return;
+      const builtFiles = Object.keys(bundle).filter(fileName => fileName !== SERVICE_WORKER_FILE && !fileName.endsWith('.map'));
+      const publicFiles = listPublicFiles(publicDir);
+
+      const hash = createHash('sha256');
+      builtFiles.forEach(fileName => {
+        const output = bundle[fileName];
+        hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+      });
+      publicFiles.forEach(url => hash.update(url).update(readFileSync(path.join(publicDir, url))));
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 16),
+        urls: ['/', ...builtFiles.map(fileName => `/${fileName}`), ...publicFiles],
+      };
+      serviceWorker.code = serviceWorker.code.replace(/\bPRECACHE_MANIFEST\b/g, JSON.stringify(manifest));
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -12,6 +74,22 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      plugins: [precacheManifest(path.resolve(__dirname, 'public'))],
+      worker: {
+        format: 'es', // The pose worker is a module worker
+      },
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'serviceWorker.ts'),
+          },
+          output: {
+            // The service worker must keep a fixed name at the root to control the whole app
+            entryFileNames: chunk => (chunk.name === 'sw' ? SERVICE_WORKER_FILE : 'assets/[name]-[hash].js'),
+          },
+        },
       }
     };
 });